@@ -1,3 +1,4 @@
+import * as path from 'path';
 import type {
   DesignItem,
   DesignProposal,
@@ -6,12 +7,38 @@ import type {
   DesignCategory,
   DesignSource,
   DesignStyle,
+  DesignTokenSet,
+  SamplingStrategy,
 } from '../types/index.js';
-import { CollectorFactory } from '../collectors/index.js';
+import {
+  CollectorFactory,
+  WebSearchCollector,
+  diagnoseSources,
+  detectDesignerProfile,
+  type CollectorProgress,
+  type RejectedSearchRow,
+  type DiagnoseOptions,
+  type SourceHealth,
+} from '../collectors/index.js';
 import { DesignAnalyzer } from '../analyzers/design-analyzer.js';
+import { SiteTokenExtractor } from '../analyzers/site-token-extractor.js';
 import { ProposalGenerator } from '../generators/proposal-generator.js';
 import { OutputGenerator } from '../generators/output-generator.js';
-import { DesignStore, type StoredDesign, type SearchOptions } from '../storage/index.js';
+import {
+  DesignStore,
+  type StoredDesign,
+  type SearchOptions,
+  type QuarantinedItem,
+  type QuarantineRepairResult,
+  type Designer,
+  type DesignerSummary,
+  getAssetManager,
+  type AssetManager,
+  type AssetCacheStats,
+  type AssetGcResult,
+  type DesignAsset,
+} from '../storage/index.js';
+import { canonicalUrl } from '../http/index.js';
 
 export interface ScoutOptions {
   sources?: DesignSource[];
@@ -20,7 +47,25 @@ export interface ScoutOptions {
   searchQuery?: string;
   limit?: number;
   sortBy?: 'popular' | 'recent' | 'trending';
+  maxPages?: number;
+  // How the final items are balanced across sources and categories
+  sampling?: SamplingStrategy;
+  sourceWeights?: Partial<Record<DesignSource, number>>;
+  // Visit each item's detail page for full-size images, tags and descriptions
+  enrich?: boolean;
+  // Read colors, fonts and spacing from the live sites items link to (needs enrich for gallery sources)
+  siteTokens?: boolean;
   saveToStore?: boolean;
+  // Download the saved designs' images into the local asset cache (needs saveToStore)
+  cacheAssets?: boolean;
+  // Leave out designs already in the store; with sortBy 'recent' pagination stops at the first of them
+  incremental?: boolean;
+  // Collect the latest work from followed designers' profile pages instead of the source listings
+  following?: boolean;
+  // Live events per source, page and item
+  progress?: CollectorProgress;
+  // Cancels collection; items from sources that already finished are kept
+  signal?: AbortSignal;
 }
 
 export interface ProposalOptions {
@@ -28,6 +73,40 @@ export interface ProposalOptions {
   targetPlatform?: 'web' | 'ios' | 'android' | 'cross-platform';
   generateOutputs?: boolean;
   outputDir?: string;
+  // Library tokens, e.g. from a Figma file, to start from or compare against
+  designTokens?: DesignTokenSet;
+  tokenMode?: 'start' | 'compare';
+  // Point outputs at cached local copies of images instead of hotlinking them
+  localAssets?: boolean;
+}
+
+export interface AssetCacheOptions {
+  // Stored design IDs; all stored designs when omitted
+  ids?: string[];
+  // How many of each design's images to cache, starting with the first
+  imagesPerDesign?: number;
+  // Download again even when the images are already cached
+  force?: boolean;
+}
+
+export interface AssetCacheResult {
+  designs: number;
+  cached: number;
+  failed: number;
+}
+
+export interface SearchImportOptions {
+  // Category for every imported result (the search output has none)
+  category?: DesignCategory;
+  // The query the searches were run for, kept in metadata and history
+  query?: string;
+}
+
+export interface SearchImportResult {
+  imported: DesignItem[];
+  // Valid results whose URL is already in the store or earlier in the output
+  duplicates: DesignItem[];
+  rejected: RejectedSearchRow[];
 }
 
 export class DesignScoutAgent {
@@ -36,11 +115,19 @@ export class DesignScoutAgent {
   private collectedItems: DesignItem[] = [];
   private store: DesignStore;
   private storeInitialized = false;
+  // Only set for a custom data directory; otherwise the shared asset manager is used
+  private assetDir?: string;
 
   constructor(dataDir?: string) {
     this.analyzer = new DesignAnalyzer();
     this.proposalGenerator = new ProposalGenerator();
     this.store = new DesignStore(dataDir || './data');
+    this.assetDir = dataDir ? path.join(dataDir, 'assets') : undefined;
+  }
+
+  // Resolved per call so that configureAssetManager() applies to an existing agent
+  private getAssets(): AssetManager {
+    return this.assetDir ? getAssetManager().withDir(this.assetDir) : getAssetManager();
   }
 
   /**
@@ -64,37 +151,102 @@ export class DesignScoutAgent {
       searchQuery: options.searchQuery,
       limit: options.limit || 30,
       sortBy: options.sortBy || 'popular',
+      maxPages: options.maxPages,
+      signal: options.signal,
+      sampling: options.sampling,
+      sourceWeights: options.sourceWeights,
     };
 
-    console.log(`Scouting designs from ${config.sources.join(', ')}...`);
+    if (options.incremental) {
+      await this.initStore();
+      config.knownUrls = this.store.getKnownUrls();
+    }
 
-    if (options.searchQuery) {
-      this.collectedItems = await CollectorFactory.searchAll(options.searchQuery, config);
+    let followed: DesignerSummary[] = [];
+    if (options.following) {
+      await this.initStore();
+      followed = this.store.getDesigners({ followedOnly: true });
+      if (!followed.length) {
+        throw new Error('No followed designers. Follow one with `design-scout follow <profile-url>` first.');
+      }
+      console.log(`Scouting the latest work of ${followed.length} followed designers...`);
+      // Only an explicit source list narrows the profiles
+      this.collectedItems = await CollectorFactory.collectFromDesigners(
+        followed, { ...config, sources: options.sources || [] }, options.progress);
+      config.sources = CollectorFactory.getLastRunMetrics().map(metrics => metrics.source);
+    } else if (options.searchQuery) {
+      console.log(`Scouting designs from ${config.sources.join(', ')}...`);
+      this.collectedItems = await CollectorFactory.searchAll(options.searchQuery, config, options.progress);
     } else {
-      this.collectedItems = await CollectorFactory.collectFromAll(config);
+      console.log(`Scouting designs from ${config.sources.join(', ')}...`);
+      this.collectedItems = await CollectorFactory.collectFromAll(config, options.progress);
     }
 
     console.log(`Collected ${this.collectedItems.length} design items`);
 
-    // Optionally save to store
-    if (options.saveToStore) {
+    const invalid = CollectorFactory.getLastInvalidItems();
+    if (invalid.length) {
       await this.initStore();
-      await this.store.saveDesigns(this.collectedItems);
+      await this.store.quarantineItems(invalid, 'collect');
+      console.log(`Quarantined ${invalid.length} invalid items`);
+    }
+    const cancelled = options.signal?.aborted ?? false;
+    if (cancelled) {
+      console.log('Collection cancelled; keeping items from finished sources');
+    } else if (followed.length) {
+      await this.store.markDesignersChecked(followed.map(designer => designer.id));
+    }
 
-      // Add to history
-      await this.store.addHistory({
-        query: options.searchQuery,
-        categories: options.categories || [],
-        sources: config.sources,
-        itemCount: this.collectedItems.length,
-      });
+    if (options.enrich && !cancelled && this.collectedItems.length > 0) {
+      console.log(`Enriching ${this.collectedItems.length} items from their detail pages...`);
+      await CollectorFactory.enrichAll(this.collectedItems);
+    }
+
+    if (options.siteTokens && !cancelled && this.collectedItems.length > 0) {
+      console.log('Extracting design tokens from live sites...');
+      const count = await new SiteTokenExtractor().enrichItems(this.collectedItems);
+      console.log(`Extracted site tokens for ${count} items`);
+    }
 
+    // Every run goes into the history so `doctor` can compare source yields
+    await this.initStore();
+    const { newItems, updatedItems } = this.countNew(this.collectedItems, config.knownUrls || this.store.getKnownUrls());
+    console.log(`${newItems} new, ${updatedItems} already in the store`);
+    await this.store.addHistory({
+      query: options.searchQuery,
+      categories: options.categories || [],
+      sources: config.sources,
+      itemCount: this.collectedItems.length,
+      sourceMetrics: CollectorFactory.getLastRunMetrics(),
+      newItems,
+      updatedItems,
+    });
+
+    // Optionally save to store
+    if (options.saveToStore) {
+      const saved = await this.store.saveDesigns(this.collectedItems);
       console.log(`Saved ${this.collectedItems.length} items to store`);
+
+      if (options.cacheAssets && !cancelled) {
+        const result = await this.cacheAssets({ ids: saved.map(design => design.id) });
+        console.log(`Cached ${result.cached} images locally (${result.failed} failed)`);
+      }
     }
 
     return this.collectedItems;
   }
 
+  /**
+   * Split items into designs the store does not have yet (counted once per
+   * canonical URL) and ones saving would update
+   */
+  private countNew(items: DesignItem[], knownUrls: Set<string>): { newItems: number; updatedItems: number } {
+    const urls = items.map(item => canonicalUrl(item.sourceUrl));
+    const updatedItems = urls.filter(url => knownUrls.has(url)).length;
+    const newItems = new Set(urls.filter(url => !knownUrls.has(url))).size;
+    return { newItems, updatedItems };
+  }
+
   /**
    * Search for specific designs
    */
@@ -102,6 +254,47 @@ export class DesignScoutAgent {
     return this.scout({ ...options, searchQuery: query });
   }
 
+  /**
+   * Import the JSON a WebSearch session returned for the web-search prompt.
+   * Rows failing validation are reported, URLs already in the store are skipped
+   * and the rest are saved and become the collected items.
+   */
+  async importSearchResults(jsonOutput: string, options: SearchImportOptions = {}): Promise<SearchImportResult> {
+    const collector = new WebSearchCollector();
+    const { results, rejected } = collector.validateSearchOutput(jsonOutput);
+    const categories = options.category ? [options.category] : [];
+    const items = collector.parseSearchResults(results, { sources: [], categories, searchQuery: options.query });
+
+    await this.initStore();
+    const knownUrls = this.store.getKnownUrls();
+    const imported: DesignItem[] = [];
+    const duplicates: DesignItem[] = [];
+
+    for (const item of items) {
+      const url = canonicalUrl(item.sourceUrl);
+      if (knownUrls.has(url)) {
+        duplicates.push(item);
+      } else {
+        knownUrls.add(url);
+        imported.push(item);
+      }
+    }
+
+    await this.store.saveDesigns(imported);
+    await this.store.addHistory({
+      query: options.query,
+      categories,
+      // The sources detected from the result URLs
+      sources: [...new Set(items.map(item => item.source))],
+      itemCount: imported.length,
+      newItems: imported.length,
+      updatedItems: 0,
+    });
+
+    this.collectedItems = imported;
+    return { imported, duplicates, rejected };
+  }
+
   /**
    * Analyze collected designs
    */
@@ -145,7 +338,10 @@ export class DesignScoutAgent {
     const proposal = await this.proposalGenerator.generateProposal(
       this.collectedItems,
       options.targetCategory,
-      options.targetPlatform || 'web'
+      options.targetPlatform || 'web',
+      options.designTokens
+        ? { tokens: options.designTokens, mode: options.tokenMode || 'start' }
+        : undefined
     );
 
     let outputs: {
@@ -155,7 +351,8 @@ export class DesignScoutAgent {
     } | undefined;
 
     if (options.generateOutputs !== false) {
-      const outputGenerator = new OutputGenerator(options.outputDir || './output');
+      const localImages = options.localAssets ? await this.getLocalImages() : undefined;
+      const outputGenerator = new OutputGenerator(options.outputDir || './output', { localImages });
       outputs = await outputGenerator.generateAllOutputs(proposal);
       console.log(`Generated outputs:`);
       console.log(`  Moodboard: ${outputs.moodboardPath}`);
@@ -283,6 +480,148 @@ export class DesignScoutAgent {
     return this.store.getHistory(limit);
   }
 
+  /**
+   * Download stored designs' images into the asset cache, with thumbnails, and
+   * record them on the designs. Images already cached are skipped unless `force` is set.
+   */
+  async cacheAssets(options: AssetCacheOptions = {}): Promise<AssetCacheResult> {
+    await this.initStore();
+    // Looked up and updated by store key
+    const entries = options.ids
+      ? options.ids.flatMap(id => {
+          const design = this.store.getDesign(id);
+          return design ? [[id, design] as [string, StoredDesign]] : [];
+        })
+      : this.store.getDesignEntries();
+    const assetManager = this.getAssets();
+    const result: AssetCacheResult = { designs: 0, cached: 0, failed: 0 };
+
+    for (const [id, design] of entries) {
+      const images = design.imageUrls.length ? design.imageUrls : design.thumbnailUrl ? [design.thumbnailUrl] : [];
+      const cachedUrls = new Set((design.assets || []).map(asset => asset.url));
+      const pending = images
+        .slice(0, options.imagesPerDesign ?? 1)
+        .filter(url => options.force || !cachedUrls.has(url));
+      if (!pending.length) continue;
+
+      const assets: DesignAsset[] = [];
+      for (const url of pending) {
+        // The design page is the referer hosts expect for their images
+        const asset = await assetManager.cacheImage(url, { referer: design.sourceUrl });
+        if (asset) {
+          assets.push(asset);
+        } else {
+          result.failed++;
+        }
+      }
+
+      result.designs++;
+      result.cached += assets.length;
+      if (assets.length) await this.store.setDesignAssets(id, assets);
+    }
+
+    return result;
+  }
+
+  /**
+   * Delete cached images no stored design references any more
+   */
+  async collectAssetGarbage(options: { dryRun?: boolean } = {}): Promise<AssetGcResult> {
+    await this.initStore();
+    return this.getAssets().collectGarbage(this.store.getAssetHashes(), options);
+  }
+
+  async getAssetStats(): Promise<AssetCacheStats> {
+    return this.getAssets().stats();
+  }
+
+  /**
+   * Image URL → cached thumbnail (480px wide or the nearest) of every stored design
+   */
+  private async getLocalImages(): Promise<Map<string, string>> {
+    await this.initStore();
+    const assetManager = this.getAssets();
+    const localImages = new Map<string, string>();
+    for (const design of this.store.getAllDesigns()) {
+      for (const asset of design.assets || []) {
+        localImages.set(asset.url, assetManager.resolveFile(asset, 480));
+      }
+    }
+    return localImages;
+  }
+
+  /**
+   * Follow a designer by profile URL (Dribbble, Behance or Awwwards), or by the
+   * name or ID of a designer already in the store
+   */
+  async follow(target: string, options: { name?: string } = {}): Promise<Designer> {
+    await this.initStore();
+    const profile = detectDesignerProfile(target);
+
+    if (profile) {
+      const known = this.store.getDesigner(profile.url);
+      return this.store.followDesigner(options.name || known?.name || profile.handle, [{ source: profile.source, url: profile.url }]);
+    }
+
+    const designer = this.store.getDesigner(target);
+    if (!designer) {
+      throw new Error(`Unknown designer "${target}": pass a Dribbble, Behance or Awwwards profile URL`);
+    }
+    if (!designer.profiles.some(p => detectDesignerProfile(p.url))) {
+      console.warn(`${designer.name} has no Dribbble, Behance or Awwwards profile yet; follow a profile URL to collect their work`);
+    }
+    return this.store.followDesigner(designer.name);
+  }
+
+  /**
+   * Stop following a designer; returns false if they were not followed
+   */
+  async unfollow(idOrName: string): Promise<boolean> {
+    await this.initStore();
+    return this.store.unfollowDesigner(idOrName);
+  }
+
+  /**
+   * Designers from stored works and follows, with aggregated works, styles and engagement
+   */
+  async getDesigners(options: { followedOnly?: boolean } = {}): Promise<DesignerSummary[]> {
+    await this.initStore();
+    return this.store.getDesigners(options);
+  }
+
+  /**
+   * Items that failed validation, newest first
+   */
+  async getQuarantine(): Promise<QuarantinedItem[]> {
+    await this.initStore();
+    return this.store.getQuarantine();
+  }
+
+  /**
+   * Fix a quarantined item and move it into the store when it validates
+   */
+  async repairQuarantined(id: string, fixes?: Record<string, unknown>): Promise<QuarantineRepairResult> {
+    await this.initStore();
+    return this.store.repairQuarantined(id, fixes);
+  }
+
+  /**
+   * Drop one quarantined item, or all of them when no ID is given
+   */
+  async discardQuarantined(id?: string): Promise<number> {
+    await this.initStore();
+    if (!id) return this.store.clearQuarantine();
+    return (await this.store.deleteQuarantined(id)) ? 1 : 0;
+  }
+
+  /**
+   * Check each source's latest run against its earlier runs in the history
+   */
+  async getSourceHealth(options?: DiagnoseOptions): Promise<SourceHealth[]> {
+    await this.initStore();
+    return diagnoseSources(this.store.getHistory(100), options);
+  }
+
   /**
    * Get store statistics
    */
@@ -293,11 +632,20 @@ export class DesignScoutAgent {
     designsBySource: Record<string, number>;
     designsByCategory: Record<string, number>;
     designsByStyle: Record<string, number>;
+    newThisWeek: number;
   }> {
     await this.initStore();
     return this.store.getStats();
   }
 
+  /**
+   * Designs first saved at or after `since`, e.g. for a "new this week" report
+   */
+  async getDesignsSavedSince(since: Date): Promise<StoredDesign[]> {
+    await this.initStore();
+    return this.store.getDesignsSavedSince(since);
+  }
+
   /**
    * Cache trends
    */
@@ -1,2 +1,9 @@
 export { DesignScoutAgent, getDesignScoutAgent } from './design-scout-agent.js';
-export type { ScoutOptions, ProposalOptions } from './design-scout-agent.js';
+export type {
+  ScoutOptions,
+  ProposalOptions,
+  SearchImportOptions,
+  SearchImportResult,
+  AssetCacheOptions,
+  AssetCacheResult,
+} from './design-scout-agent.js';
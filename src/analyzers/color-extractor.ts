@@ -1,5 +1,6 @@
 import sharp from 'sharp';
 import type { ColorPalette } from '../types/index.js';
+import { getHttpCache, getRateLimiter, getRobotsCache, USER_AGENT } from '../http/index.js';
 
 export interface ExtractedColor {
   hex: string;
@@ -29,7 +30,22 @@ export class ColorExtractor {
    */
   async extractFromUrl(imageUrl: string): Promise<ColorExtractionResult> {
     try {
-      const response = await fetch(imageUrl);
+      const robots = await getRobotsCache().get(imageUrl);
+      if (!robots.isAllowed(imageUrl, USER_AGENT)) {
+        console.warn(`Skipping ${imageUrl}: disallowed by robots.txt`);
+        return this.getDefaultResult();
+      }
+      const crawlDelay = robots.getCrawlDelay(USER_AGENT);
+
+      // Only requests that miss the cache are rate limited
+      const response = await getHttpCache().fetch(
+        imageUrl,
+        { headers: { 'User-Agent': USER_AGENT } },
+        async (url, init) => {
+          await getRateLimiter().acquire(url, undefined, crawlDelay);
+          return fetch(url, init);
+        }
+      );
       if (!response.ok) {
         throw new Error(`Failed to fetch image: ${response.status}`);
       }
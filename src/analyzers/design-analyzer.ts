@@ -4,8 +4,10 @@ import type {
   AnalysisResult,
   DesignStyle,
   ColorPalette,
+  SiteTokens,
 } from '../types/index.js';
 import { ColorExtractor, type ColorExtractionResult } from './color-extractor.js';
+import { scoreEngagement, compareEngagement, getEngagementConfig, NEUTRAL_ENGAGEMENT } from './engagement.js';
 
 export class DesignAnalyzer {
   private colorExtractor: ColorExtractor;
@@ -17,10 +19,11 @@ export class DesignAnalyzer {
   async analyzeDesigns(items: DesignItem[]): Promise<AnalysisResult> {
     const styleFrequency = this.calculateStyleFrequency(items);
     const dominantStyles = this.getDominantStyles(styleFrequency);
-    const allColors = items.flatMap(item => item.colors);
+    const allColors = this.collectColors(items);
     const colorAnalysis = this.analyzeColors(allColors);
     const layoutPatterns = this.identifyLayoutPatterns(items);
     const typographyPatterns = this.identifyTypographyPatterns(items);
+    const siteFonts = this.countSiteFonts(items);
     const interactionPatterns = this.identifyInteractionPatterns(items);
 
     return {
@@ -32,10 +35,13 @@ export class DesignAnalyzer {
       accessibilityScore: this.calculateAccessibilityScore(colorAnalysis),
       modernityScore: this.calculateModernityScore(dominantStyles),
       uniquenessScore: this.calculateUniquenessScore(items),
+      siteFonts: siteFonts.length ? siteFonts : undefined,
     };
   }
 
   async identifyTrends(items: DesignItem[]): Promise<DesignTrend[]> {
+    // Stored items from before engagement scores existed get one here
+    scoreEngagement(items);
     const styleGroups = this.groupByStyle(items);
     const trends: DesignTrend[] = [];
 
@@ -44,7 +50,7 @@ export class DesignAnalyzer {
         trends.push({
           name: this.formatTrendName(style as DesignStyle),
           description: this.getTrendDescription(style as DesignStyle),
-          examples: styleItems.slice(0, 5),
+          examples: [...styleItems].sort(compareEngagement).slice(0, 5),
           popularity: this.calculateTrendPopularity(styleItems, items.length),
           emerging: this.isEmergingTrend(styleItems),
           relatedStyles: this.getRelatedStyles(style as DesignStyle),
@@ -57,7 +63,7 @@ export class DesignAnalyzer {
   }
 
   generateColorPalette(items: DesignItem[]): ColorPalette {
-    const allColors = items.flatMap(item => item.colors);
+    const allColors = this.collectColors(items);
     const colorFrequency = this.calculateColorFrequency(allColors);
     const sortedColors = Object.entries(colorFrequency)
       .sort(([, a], [, b]) => b - a)
@@ -137,6 +143,51 @@ export class DesignAnalyzer {
     }
   }
 
+  /**
+   * Item colors plus the brand colors of live sites. Near-neutral CSS colors
+   * (text grays, white backgrounds) are left out so they do not become the palette.
+   */
+  private collectColors(items: DesignItem[]): string[] {
+    const siteColors = this.siteTokensOf(items).flatMap(tokens =>
+      tokens.colors
+        .map(color => color.value)
+        .filter(hex => {
+          const { s, l } = this.hexToHsl(hex);
+          return s > 15 && l > 10 && l < 90;
+        })
+        .slice(0, 5)
+    );
+    return [...items.flatMap(item => item.colors), ...siteColors];
+  }
+
+  private siteTokensOf(items: DesignItem[]): SiteTokens[] {
+    return items
+      .map(item => item.metadata?.siteTokens as SiteTokens | undefined)
+      .filter((tokens): tokens is SiteTokens => !!tokens);
+  }
+
+  /**
+   * Primary font family of each site's stacks, counted once per site
+   */
+  private countSiteFonts(items: DesignItem[]): Array<{ family: string; sites: number }> {
+    const generic = /^(serif|sans-serif|monospace|cursive|fantasy|system-ui|ui-[\w-]+|-apple-system|blinkmacsystemfont|segoe ui|helvetica( neue)?|arial|roboto)$/i;
+    const counts = new Map<string, number>();
+
+    for (const tokens of this.siteTokensOf(items)) {
+      const families = new Set(
+        tokens.fontFamilies
+          .map(stack => stack.value.split(',')[0].trim())
+          .filter(family => family && !generic.test(family))
+      );
+      families.forEach(family => counts.set(family, (counts.get(family) || 0) + 1));
+    }
+
+    return [...counts.entries()]
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, 5)
+      .map(([family, sites]) => ({ family, sites }));
+  }
+
   private calculateStyleFrequency(items: DesignItem[]): Record<DesignStyle, number> {
     const frequency: Partial<Record<DesignStyle, number>> = {};
 
@@ -338,6 +389,11 @@ export class DesignAnalyzer {
   }
 
   private identifyTypographyPatterns(items: DesignItem[]): string[] {
+    const siteTokens = this.siteTokensOf(items);
+    if (siteTokens.length) {
+      return this.siteTypographyPatterns(items, siteTokens);
+    }
+
     return [
       'Large display headings (48-72px)',
       'Variable font weights for hierarchy',
@@ -346,6 +402,36 @@ export class DesignAnalyzer {
     ];
   }
 
+  /**
+   * Typography patterns measured from the production CSS of analyzed sites
+   */
+  private siteTypographyPatterns(items: DesignItem[], siteTokens: SiteTokens[]): string[] {
+    const patterns: string[] = [];
+    const total = siteTokens.length;
+
+    for (const { family, sites } of this.countSiteFonts(items).slice(0, 3)) {
+      patterns.push(`${family} used on ${sites} of ${total} sites`);
+    }
+
+    const sizes = siteTokens.flatMap(tokens => tokens.fontSizes);
+    if (sizes.length) {
+      const values = sizes.map(size => parseFloat(size.value));
+      const mostCommon = [...sizes].sort((a, b) => b.count - a.count)[0].value;
+      patterns.push(`Font sizes from ${Math.min(...values)}px to ${Math.max(...values)}px (most common ${mostCommon})`);
+    }
+
+    const selfHosted = siteTokens.filter(tokens => tokens.fontFaces.length).length;
+    const googleFonts = siteTokens.filter(tokens => tokens.googleFonts.length).length;
+    if (selfHosted) patterns.push(`Self-hosted web fonts on ${selfHosted} of ${total} sites`);
+    if (googleFonts) patterns.push(`Google Fonts on ${googleFonts} of ${total} sites`);
+
+    // A weight range such as "100 900" in @font-face declares a variable font
+    const variable = siteTokens.filter(tokens => tokens.fontFaces.some(face => /^\d+\s+\d+$/.test(face.weight || ''))).length;
+    if (variable) patterns.push(`Variable fonts on ${variable} of ${total} sites`);
+
+    return patterns;
+  }
+
   private identifyInteractionPatterns(items: DesignItem[]): string[] {
     return [
       'Micro-interactions on hover',
@@ -429,11 +515,13 @@ export class DesignAnalyzer {
   }
 
   private calculateTrendPopularity(styleItems: DesignItem[], totalItems: number): number {
-    const percentage = (styleItems.length / totalItems) * 100;
-    const avgLikes = styleItems.reduce((sum, item) => sum + (item.likes || 0), 0) / styleItems.length;
+    const frequency = Math.min(100, (styleItems.length / totalItems) * 100 * 2);
+    const engagement = styleItems
+      .reduce((sum, item) => sum + (item.engagementScore ?? NEUTRAL_ENGAGEMENT), 0) / styleItems.length;
 
     // Combine frequency and engagement
-    return Math.min(100, percentage * 2 + (avgLikes > 1000 ? 20 : avgLikes > 100 ? 10 : 0));
+    const { trendWeight } = getEngagementConfig();
+    return Math.round(frequency * (1 - trendWeight) + engagement * trendWeight);
   }
 
   private isEmergingTrend(items: DesignItem[]): boolean {
@@ -0,0 +1,109 @@
+import { z } from 'zod';
+import type { DesignItem, DesignSource } from '../types/index.js';
+import { DesignSourceSchema } from '../types/index.js';
+
+// Score used for ranking items without likes or views: the middle of the scale
+export const NEUTRAL_ENGAGEMENT = 50;
+
+export const EngagementConfigSchema = z.object({
+  // percentile: rank within the source; zscore: distance from the source mean, mapped through the normal CDF
+  method: z.enum(['percentile', 'zscore']),
+  // How much one view counts relative to one like in the raw signal
+  viewsWeight: z.number().min(0),
+  // Multiplier on a source's normalized scores, e.g. 1.2 to favour juried awards
+  sourceWeights: z.record(DesignSourceSchema, z.number().min(0)),
+  // Share of engagement, against style frequency, in trend popularity (0-1)
+  trendWeight: z.number().min(0).max(1),
+});
+
+export type EngagementConfig = z.infer<typeof EngagementConfigSchema>;
+
+export const DEFAULT_ENGAGEMENT_CONFIG: EngagementConfig = {
+  method: 'percentile',
+  viewsWeight: 0.01,
+  sourceWeights: {},
+  trendWeight: 0.3,
+};
+
+/**
+ * Likes, views and jury scores are on different scales per source, so each item
+ * gets an `engagementScore` (0-100) relative to the other items of its source.
+ * Items that already have a score keep it unless `overwrite` is set; they still
+ * count towards their source's distribution. Updates the items in place.
+ */
+export function scoreEngagement(
+  items: DesignItem[],
+  config: EngagementConfig = getEngagementConfig(),
+  options: { overwrite?: boolean } = {}
+): DesignItem[] {
+  const bySource = new Map<DesignSource, Array<{ item: DesignItem; raw: number }>>();
+  for (const item of items) {
+    const raw = rawEngagement(item, config);
+    if (raw === undefined) continue;
+    const group = bySource.get(item.source) || [];
+    group.push({ item, raw });
+    bySource.set(item.source, group);
+  }
+
+  for (const [source, group] of bySource) {
+    const values = group.map(entry => entry.raw);
+    const normalize = config.method === 'zscore' ? zScoreNormalizer(values) : percentileNormalizer(values);
+    const weight = config.sourceWeights[source] ?? 1;
+
+    for (const { item, raw } of group) {
+      if (item.engagementScore !== undefined && !options.overwrite) continue;
+      item.engagementScore = Math.round(Math.min(100, normalize(raw) * weight) * 10) / 10;
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Sort comparator: highest engagement first, unscored items in the middle
+ */
+export function compareEngagement(a: DesignItem, b: DesignItem): number {
+  return (b.engagementScore ?? NEUTRAL_ENGAGEMENT) - (a.engagementScore ?? NEUTRAL_ENGAGEMENT);
+}
+
+function rawEngagement(item: DesignItem, config: EngagementConfig): number | undefined {
+  if (item.likes === undefined && item.views === undefined) return undefined;
+  return (item.likes || 0) + (item.views || 0) * config.viewsWeight;
+}
+
+// Mid-rank percentile, so ties share a score and a lone item lands at 50
+function percentileNormalizer(values: number[]): (value: number) => number {
+  return (value) => {
+    const below = values.filter(v => v < value).length;
+    const equal = values.filter(v => v === value).length;
+    return ((below + equal / 2) / values.length) * 100;
+  };
+}
+
+function zScoreNormalizer(values: number[]): (value: number) => number {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const std = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+  return (value) => (std === 0 ? 0.5 : normalCdf((value - mean) / std)) * 100;
+}
+
+// Abramowitz-Stegun approximation of the standard normal CDF
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+let engagementConfig: EngagementConfig = DEFAULT_ENGAGEMENT_CONFIG;
+
+/**
+ * Set how engagement is normalized and weighted; unset fields keep their defaults
+ */
+export function configureEngagement(config: Partial<EngagementConfig> = {}): EngagementConfig {
+  engagementConfig = { ...DEFAULT_ENGAGEMENT_CONFIG, ...config };
+  return engagementConfig;
+}
+
+export function getEngagementConfig(): EngagementConfig {
+  return engagementConfig;
+}
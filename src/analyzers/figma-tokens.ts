@@ -0,0 +1,577 @@
+import * as fs from 'fs/promises';
+import type {
+  ColorPalette,
+  DesignTokenSet,
+  RadiusToken,
+  ShadowLayer,
+  ShadowToken,
+  TokenComparison,
+  TypographyRecommendation,
+} from '../types/index.js';
+import { ApiError, getApiClient } from '../http/index.js';
+import { DesignAnalyzer } from './design-analyzer.js';
+
+// Subset of the Figma REST API file format used for token extraction
+interface FigmaColor {
+  r: number;
+  g: number;
+  b: number;
+  a?: number;
+}
+
+interface FigmaPaint {
+  type: string;
+  visible?: boolean;
+  opacity?: number;
+  color?: FigmaColor;
+}
+
+interface FigmaEffect {
+  type: string;
+  visible?: boolean;
+  color?: FigmaColor;
+  offset?: { x: number; y: number };
+  radius?: number;
+  spread?: number;
+}
+
+interface FigmaTypeStyle {
+  fontFamily: string;
+  fontWeight: number;
+  fontSize: number;
+  lineHeightPx?: number;
+  lineHeightPercentFontSize?: number;
+  lineHeightUnit?: 'PIXELS' | 'FONT_SIZE_%' | 'INTRINSIC_%';
+  letterSpacing?: number;
+}
+
+export interface FigmaNode {
+  id: string;
+  name: string;
+  type: string;
+  children?: FigmaNode[];
+  fills?: FigmaPaint[];
+  strokes?: FigmaPaint[];
+  effects?: FigmaEffect[];
+  style?: FigmaTypeStyle;
+  cornerRadius?: number;
+  // Style ids applied to this node, keyed by "fill", "stroke", "text" or "effect"
+  styles?: Record<string, string>;
+}
+
+export interface FigmaStyleMeta {
+  key: string;
+  name: string;
+  styleType: 'FILL' | 'TEXT' | 'EFFECT' | 'GRID';
+  description?: string;
+}
+
+// GET /v1/files/:key
+export interface FigmaFileResponse {
+  name: string;
+  lastModified?: string;
+  document: FigmaNode;
+  styles?: Record<string, FigmaStyleMeta>;
+}
+
+// GET /v1/files/:key/nodes?ids=...
+export interface FigmaNodesResponse {
+  nodes: Record<string, { document: FigmaNode } | null>;
+}
+
+interface FigmaVariableAlias {
+  type: 'VARIABLE_ALIAS';
+  id: string;
+}
+
+export interface FigmaVariable {
+  id: string;
+  name: string;
+  resolvedType: 'COLOR' | 'FLOAT' | 'STRING' | 'BOOLEAN';
+  variableCollectionId: string;
+  valuesByMode: Record<string, FigmaColor | number | string | boolean | FigmaVariableAlias>;
+}
+
+// GET /v1/files/:key/variables/local
+export interface FigmaVariablesResponse {
+  meta: {
+    variables: Record<string, FigmaVariable>;
+    variableCollections: Record<string, { id: string; name: string; defaultModeId: string }>;
+  };
+}
+
+/**
+ * Everything token extraction needs from one file. Save it with
+ * `design-scout figma-tokens <key> --save-json` to replay the import offline.
+ */
+export interface FigmaFileSnapshot {
+  fileKey?: string;
+  file: FigmaFileResponse;
+  nodes?: FigmaNodesResponse;
+  variables?: FigmaVariablesResponse;
+}
+
+type PaletteRole = keyof Omit<ColorPalette, 'additionalColors'>;
+type TypeRole = TypographyRecommendation['role'];
+
+// First match wins, so "Text/Primary" is a text color rather than the primary color
+const PALETTE_ROLE_PATTERNS: Array<[PaletteRole, RegExp]> = [
+  ['textSecondary', /\b(text|foreground|fg)\b.*\b(secondary|muted|subtle|tertiary)\b|\b(secondary|muted|subtle)\b.*\b(text|foreground|fg)\b/],
+  ['text', /\b(text|foreground|fg)\b/],
+  ['background', /\b(background|bg|canvas)\b/],
+  ['surface', /\b(surface|card|paper|elevated)\b/],
+  ['success', /\b(success|positive|valid)\b/],
+  ['warning', /\b(warning|caution|attention)\b/],
+  ['error', /\b(error|danger|destructive|negative|critical)\b/],
+  ['primary', /\b(primary|brand)\b/],
+  ['secondary', /\bsecondary\b/],
+  ['accent', /\b(accent|highlight|tertiary)\b/],
+];
+
+const TYPE_ROLE_PATTERNS: Array<[TypeRole, RegExp]> = [
+  ['button', /\b(button|btn|cta)\b/],
+  ['caption', /\b(caption|small|overline|footnote|label|helper)\b/],
+  ['subheading', /\b(subheading|subtitle|sub title|h[3-6])\b/],
+  ['heading', /\b(heading|headline|display|hero|title|h[12])\b/],
+  ['body', /\b(body|paragraph|text|base|regular|p)\b/],
+];
+
+// Font size each role is usually set at, used to pick among several candidates
+const TYPICAL_FONT_SIZE: Record<TypeRole, number> = {
+  heading: Infinity,
+  subheading: 24,
+  body: 16,
+  caption: 0,
+  button: 16,
+};
+
+const NODE_BATCH_SIZE = 50;
+
+/**
+ * Imports color, text and effect styles plus variables from a Figma file and
+ * maps them onto the palette, typography, shadow and radius tokens proposals use.
+ */
+export class FigmaTokenImporter {
+  private analyzer = new DesignAnalyzer();
+
+  /**
+   * Fetch a file through the REST API (needs FIGMA_ACCESS_TOKEN) and extract its tokens
+   */
+  async importFile(fileKey: string): Promise<DesignTokenSet> {
+    return this.extract(await this.fetchSnapshot(fileKey));
+  }
+
+  /**
+   * Extract tokens from a saved snapshot, or from a raw `GET /v1/files/:key` response
+   */
+  async importFromJson(filePath: string): Promise<DesignTokenSet> {
+    const json = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    return this.extract('document' in json ? { file: json } : json);
+  }
+
+  async fetchSnapshot(fileKey: string): Promise<FigmaFileSnapshot> {
+    const client = getApiClient('figma');
+    if (!client) {
+      throw new Error('FIGMA_ACCESS_TOKEN is not set; a personal access token is required to read files');
+    }
+
+    const file = await client.get<FigmaFileResponse>(`files/${fileKey}`);
+
+    // Style definitions live on their own nodes; the file tree only references them
+    const nodes: FigmaNodesResponse = { nodes: {} };
+    const styleIds = Object.keys(file.styles || {});
+    for (let i = 0; i < styleIds.length; i += NODE_BATCH_SIZE) {
+      const batch = await client.get<FigmaNodesResponse>(`files/${fileKey}/nodes`, {
+        ids: styleIds.slice(i, i + NODE_BATCH_SIZE).join(','),
+      });
+      Object.assign(nodes.nodes, batch.nodes);
+    }
+
+    // The variables endpoint is limited to Enterprise plans; styles still work without it
+    let variables: FigmaVariablesResponse | undefined;
+    try {
+      variables = await client.get<FigmaVariablesResponse>(`files/${fileKey}/variables/local`);
+    } catch (error) {
+      if (!(error instanceof ApiError) || (error.status !== 403 && error.status !== 404)) throw error;
+      console.warn(`Skipping variables for ${fileKey}: ${error.message}`);
+    }
+
+    return { fileKey, file, nodes, variables };
+  }
+
+  extract(snapshot: FigmaFileSnapshot): DesignTokenSet {
+    const { file } = snapshot;
+    const definitions = this.resolveStyleNodes(snapshot);
+    const variables = this.resolveVariables(snapshot.variables);
+
+    const colors: Record<string, string> = {};
+    const textStyles: Array<{ name: string; style: FigmaTypeStyle }> = [];
+    const shadows: ShadowToken[] = [];
+
+    for (const [id, meta] of Object.entries(file.styles || {})) {
+      const definition = definitions.get(id);
+      if (!definition) continue;
+
+      if (meta.styleType === 'FILL') {
+        const hex = this.paintToHex(definition.paints);
+        if (hex) colors[meta.name] = hex;
+      } else if (meta.styleType === 'TEXT' && definition.node.style) {
+        textStyles.push({ name: meta.name, style: definition.node.style });
+      } else if (meta.styleType === 'EFFECT') {
+        const shadow = this.effectsToShadow(meta.name, definition.node.effects || []);
+        if (shadow) shadows.push(shadow);
+      }
+    }
+
+    // Styles take precedence over variables that share a name
+    for (const variable of variables) {
+      if (variable.resolvedType === 'COLOR' && this.isColor(variable.value) && !(variable.name in colors)) {
+        colors[variable.name] = this.colorToHex(variable.value);
+      }
+    }
+
+    const { colorPalette, unmappedRoles } = this.mapPalette(colors);
+
+    return {
+      source: 'figma',
+      fileKey: snapshot.fileKey,
+      name: file.name,
+      colors,
+      colorPalette,
+      unmappedRoles,
+      typography: this.mapTypography(textStyles),
+      shadows: shadows.sort((a, b) => a.name.localeCompare(b.name)),
+      radii: this.extractRadii(file.document, variables),
+      importedAt: new Date(),
+    };
+  }
+
+  /**
+   * Style id -> the node defining it. Styles the nodes endpoint could not resolve
+   * (e.g. ones from a team library) fall back to the first node using them.
+   */
+  private resolveStyleNodes(snapshot: FigmaFileSnapshot): Map<string, { node: FigmaNode; paints: FigmaPaint[] }> {
+    const definitions = new Map<string, { node: FigmaNode; paints: FigmaPaint[] }>();
+
+    for (const [id, entry] of Object.entries(snapshot.nodes?.nodes || {})) {
+      if (entry?.document) {
+        definitions.set(id, { node: entry.document, paints: entry.document.fills || [] });
+      }
+    }
+
+    this.walk(snapshot.file.document, node => {
+      for (const [kind, id] of Object.entries(node.styles || {})) {
+        if (definitions.has(id)) continue;
+        const paints = kind === 'stroke' ? node.strokes : node.fills;
+        definitions.set(id, { node, paints: paints || [] });
+      }
+    });
+
+    return definitions;
+  }
+
+  /**
+   * Variables with their value in the collection's default mode, aliases followed
+   */
+  private resolveVariables(
+    response?: FigmaVariablesResponse
+  ): Array<{ name: string; resolvedType: FigmaVariable['resolvedType']; value: unknown }> {
+    if (!response) return [];
+    const { variables, variableCollections } = response.meta;
+
+    const valueOf = (variable: FigmaVariable, depth = 0): unknown => {
+      const modeId = variableCollections[variable.variableCollectionId]?.defaultModeId;
+      const value = modeId ? variable.valuesByMode[modeId] : Object.values(variable.valuesByMode)[0];
+
+      if (value && typeof value === 'object' && 'type' in value && value.type === 'VARIABLE_ALIAS') {
+        const target = variables[value.id];
+        return target && depth < 10 ? valueOf(target, depth + 1) : undefined;
+      }
+      return value;
+    };
+
+    return Object.values(variables).map(variable => ({
+      name: variable.name,
+      resolvedType: variable.resolvedType,
+      value: valueOf(variable),
+    }));
+  }
+
+  private mapPalette(colors: Record<string, string>): Pick<DesignTokenSet, 'colorPalette' | 'unmappedRoles'> {
+    const candidates = new Map<PaletteRole, string[]>();
+    const unassigned: string[] = [];
+
+    for (const name of Object.keys(colors)) {
+      const normalized = this.normalizeName(name);
+      const match = PALETTE_ROLE_PATTERNS.find(([, pattern]) => pattern.test(normalized));
+      if (match) {
+        candidates.set(match[0], [...(candidates.get(match[0]) || []), name]);
+      } else {
+        unassigned.push(name);
+      }
+    }
+
+    const defaults = this.analyzer.generateColorPalette([]);
+    const colorPalette: ColorPalette = { ...defaults, additionalColors: [] };
+    const unmappedRoles: PaletteRole[] = [];
+
+    for (const [role] of PALETTE_ROLE_PATTERNS) {
+      const names = candidates.get(role);
+      if (!names) {
+        unmappedRoles.push(role);
+        continue;
+      }
+      const [best, ...rest] = names.sort((a, b) => this.shadeRank(a) - this.shadeRank(b) || a.length - b.length);
+      colorPalette[role] = colors[best];
+      unassigned.push(...rest);
+    }
+
+    colorPalette.additionalColors = [...new Set(unassigned.map(name => colors[name]))]
+      .filter(hex => !Object.values(colorPalette).includes(hex))
+      .slice(0, 8);
+
+    return { colorPalette, unmappedRoles };
+  }
+
+  // Base shades ("Blue/500", "Primary/Default") beat tints and shades of the same color
+  private shadeRank(name: string): number {
+    const normalized = this.normalizeName(name);
+    if (/\b(500|default|base|main)\b/.test(normalized)) return 0;
+    if (!/\b\d{2,3}\b|\b(light|dark|lighter|darker|hover|pressed|disabled)\b/.test(normalized)) return 1;
+    return 2;
+  }
+
+  private mapTypography(textStyles: Array<{ name: string; style: FigmaTypeStyle }>): TypographyRecommendation[] {
+    const byRole = new Map<TypeRole, FigmaTypeStyle[]>();
+
+    for (const { name, style } of textStyles) {
+      const normalized = this.normalizeName(name);
+      const match = TYPE_ROLE_PATTERNS.find(([, pattern]) => pattern.test(normalized));
+      if (match) byRole.set(match[0], [...(byRole.get(match[0]) || []), style]);
+    }
+
+    const recommendations: TypographyRecommendation[] = [];
+    for (const role of ['heading', 'subheading', 'body', 'caption', 'button'] as TypeRole[]) {
+      const styles = byRole.get(role);
+      if (!styles) continue;
+
+      const target = TYPICAL_FONT_SIZE[role];
+      const [style] = [...styles].sort((a, b) =>
+        target === Infinity
+          ? b.fontSize - a.fontSize
+          : Math.abs(a.fontSize - target) - Math.abs(b.fontSize - target)
+      );
+      recommendations.push(this.toTypography(role, style));
+    }
+    return recommendations;
+  }
+
+  private toTypography(role: TypeRole, style: FigmaTypeStyle): TypographyRecommendation {
+    let lineHeight = 'normal';
+    if (style.lineHeightUnit === 'FONT_SIZE_%' && style.lineHeightPercentFontSize) {
+      lineHeight = this.formatNumber(style.lineHeightPercentFontSize / 100);
+    } else if (style.lineHeightUnit !== 'INTRINSIC_%' && style.lineHeightPx) {
+      lineHeight = this.formatNumber(style.lineHeightPx / style.fontSize);
+    }
+
+    return {
+      role,
+      fontFamily: style.fontFamily,
+      fontSize: `${this.formatNumber(style.fontSize)}px`,
+      fontWeight: String(style.fontWeight),
+      lineHeight,
+      // Figma gives letter spacing in pixels; em keeps it proportional to the size
+      letterSpacing: style.letterSpacing
+        ? `${this.formatNumber(style.letterSpacing / style.fontSize, 3)}em`
+        : undefined,
+    };
+  }
+
+  private effectsToShadow(name: string, effects: FigmaEffect[]): ShadowToken | null {
+    const layers: ShadowLayer[] = effects
+      .filter(effect => effect.visible !== false && (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW'))
+      .map(effect => ({
+        inset: effect.type === 'INNER_SHADOW',
+        offsetX: effect.offset?.x || 0,
+        offsetY: effect.offset?.y || 0,
+        blur: effect.radius || 0,
+        spread: effect.spread || 0,
+        color: this.colorToRgba(effect.color || { r: 0, g: 0, b: 0, a: 0.25 }),
+      }));
+
+    if (!layers.length) return null;
+
+    const css = layers
+      .map(layer => `${layer.inset ? 'inset ' : ''}${layer.offsetX}px ${layer.offsetY}px ${layer.blur}px ${layer.spread}px ${layer.color}`)
+      .join(', ');
+    return { name, layers, css };
+  }
+
+  /**
+   * Radius variables when the file has them, otherwise the distinct corner radii
+   * used by its components
+   */
+  private extractRadii(
+    document: FigmaNode,
+    variables: Array<{ name: string; resolvedType: FigmaVariable['resolvedType']; value: unknown }>
+  ): RadiusToken[] {
+    const fromVariables: RadiusToken[] = variables
+      .filter(v => v.resolvedType === 'FLOAT' && typeof v.value === 'number'
+        && /\b(radius|radii|corner|rounded)\b/.test(this.normalizeName(v.name)))
+      .map(v => ({ name: v.name, value: `${this.formatNumber(v.value as number)}px`, origin: 'variable' as const }));
+
+    if (fromVariables.length) {
+      return fromVariables.sort((a, b) => parseFloat(a.value) - parseFloat(b.value));
+    }
+
+    const values = new Set<number>();
+    this.walk(document, node => {
+      if ((node.type === 'COMPONENT' || node.type === 'COMPONENT_SET') && node.cornerRadius) {
+        values.add(node.cornerRadius);
+      }
+    });
+
+    return [...values]
+      .sort((a, b) => a - b)
+      .map(value => ({ name: `radius/${this.formatNumber(value)}`, value: `${this.formatNumber(value)}px`, origin: 'document' }));
+  }
+
+  private paintToHex(paints: FigmaPaint[]): string | null {
+    const paint = paints.find(p => p.type === 'SOLID' && p.visible !== false && p.color);
+    if (!paint?.color) return null;
+    return this.colorToHex({ ...paint.color, a: (paint.color.a ?? 1) * (paint.opacity ?? 1) });
+  }
+
+  private colorToHex(color: FigmaColor): string {
+    const channel = (value: number) => Math.round(value * 255).toString(16).padStart(2, '0');
+    const alpha = color.a ?? 1;
+    return `#${channel(color.r)}${channel(color.g)}${channel(color.b)}${alpha < 1 ? channel(alpha) : ''}`.toUpperCase();
+  }
+
+  private colorToRgba(color: FigmaColor): string {
+    const channel = (value: number) => Math.round(value * 255);
+    return `rgba(${channel(color.r)}, ${channel(color.g)}, ${channel(color.b)}, ${this.formatNumber(color.a ?? 1)})`;
+  }
+
+  private isColor(value: unknown): value is FigmaColor {
+    return !!value && typeof value === 'object' && 'r' in value && 'g' in value && 'b' in value;
+  }
+
+  private normalizeName(name: string): string {
+    return name.toLowerCase().replace(/[/_.\-]+/g, ' ');
+  }
+
+  private formatNumber(value: number, digits = 2): string {
+    return String(Number(value.toFixed(digits)));
+  }
+
+  private walk(root: FigmaNode, visit: (node: FigmaNode) => void): void {
+    const stack = [root];
+    while (stack.length) {
+      const node = stack.pop()!;
+      visit(node);
+      if (node.children) stack.push(...node.children);
+    }
+  }
+}
+
+/**
+ * Read a token set written by `design-scout figma-tokens -o`, or extract one
+ * from a saved Figma file snapshot
+ */
+export async function loadDesignTokens(filePath: string): Promise<DesignTokenSet> {
+  const json = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  if ('document' in json || 'file' in json) {
+    return new FigmaTokenImporter().importFromJson(filePath);
+  }
+  return { ...json, importedAt: new Date(json.importedAt) };
+}
+
+/**
+ * Start from the library: mapped palette roles and type roles replace the
+ * generated ones, anything the library does not define is kept
+ */
+export function applyDesignTokens(
+  palette: ColorPalette,
+  typography: TypographyRecommendation[],
+  tokens: DesignTokenSet
+): { colorPalette: ColorPalette; typography: TypographyRecommendation[] } {
+  const colorPalette: ColorPalette = { ...palette };
+  for (const [role] of PALETTE_ROLE_PATTERNS) {
+    if (!tokens.unmappedRoles.includes(role)) {
+      colorPalette[role] = tokens.colorPalette[role];
+    }
+  }
+  if (tokens.colorPalette.additionalColors.length) {
+    colorPalette.additionalColors = tokens.colorPalette.additionalColors;
+  }
+
+  return {
+    colorPalette,
+    typography: typography.map(rec => tokens.typography.find(t => t.role === rec.role) || rec),
+  };
+}
+
+/**
+ * How far a generated palette and type scale are from the library. Colors
+ * within `tolerance` (RGB distance, 0-441) count as matching.
+ */
+export function compareWithTokens(
+  palette: ColorPalette,
+  typography: TypographyRecommendation[],
+  tokens: DesignTokenSet,
+  tolerance: number = 30
+): TokenComparison {
+  const libraryColors = Object.entries(tokens.colors);
+
+  const colors: TokenComparison['colors'] = [];
+  for (const [role] of PALETTE_ROLE_PATTERNS) {
+    if (tokens.unmappedRoles.includes(role)) continue;
+
+    const library = tokens.colorPalette[role];
+    const proposed = palette[role];
+    const [nearestName, nearestHex] = libraryColors.reduce((best, entry) =>
+      colorDistance(proposed, entry[1]) < colorDistance(proposed, best[1]) ? entry : best,
+    libraryColors[0]);
+
+    colors.push({
+      role,
+      proposed,
+      library,
+      nearest: { name: nearestName, hex: nearestHex, distance: Math.round(colorDistance(proposed, nearestHex)) },
+      matches: colorDistance(proposed, library) <= tolerance,
+    });
+  }
+
+  const type: TokenComparison['typography'] = typography.map(proposed => {
+    const library = tokens.typography.find(t => t.role === proposed.role);
+    const differences: string[] = [];
+    if (library) {
+      for (const key of ['fontFamily', 'fontSize', 'fontWeight', 'lineHeight'] as const) {
+        if (proposed[key].toLowerCase() !== library[key].toLowerCase()) {
+          differences.push(`${key}: ${proposed[key]} vs ${library[key]}`);
+        }
+      }
+    }
+    return { role: proposed.role, proposed, library, differences };
+  });
+
+  const compared = colors.length + type.filter(t => t.library).length;
+  const matched = colors.filter(c => c.matches).length + type.filter(t => t.library && !t.differences.length).length;
+
+  return {
+    colors,
+    typography: type,
+    score: compared ? Math.round((matched / compared) * 100) : 0,
+  };
+}
+
+function colorDistance(a: string, b: string): number {
+  const rgb = (hex: string) => {
+    const value = hex.replace('#', '');
+    return [0, 2, 4].map(i => parseInt(value.slice(i, i + 2), 16) || 0);
+  };
+  const [r1, g1, b1] = rgb(a);
+  const [r2, g2, b2] = rgb(b);
+  return Math.sqrt((r1 - r2) ** 2 + (g1 - g2) ** 2 + (b1 - b2) ** 2);
+}
@@ -1,3 +1,25 @@
 export { DesignAnalyzer } from './design-analyzer.js';
 export { ColorExtractor } from './color-extractor.js';
 export type { ExtractedColor, ColorExtractionResult } from './color-extractor.js';
+export {
+  scoreEngagement,
+  compareEngagement,
+  configureEngagement,
+  getEngagementConfig,
+  EngagementConfigSchema,
+  DEFAULT_ENGAGEMENT_CONFIG,
+  NEUTRAL_ENGAGEMENT,
+} from './engagement.js';
+export type { EngagementConfig } from './engagement.js';
+export { SiteTokenExtractor } from './site-token-extractor.js';
+export type { SiteTokenExtractorOptions } from './site-token-extractor.js';
+export { FigmaTokenImporter, loadDesignTokens, applyDesignTokens, compareWithTokens } from './figma-tokens.js';
+export type {
+  FigmaFileSnapshot,
+  FigmaFileResponse,
+  FigmaNodesResponse,
+  FigmaVariablesResponse,
+  FigmaVariable,
+  FigmaNode,
+  FigmaStyleMeta,
+} from './figma-tokens.js';
@@ -0,0 +1,416 @@
+import * as cheerio from 'cheerio';
+import type { DesignItem, SiteTokens, TokenCount } from '../types/index.js';
+import {
+  getCassette,
+  getHttpCache,
+  getRateLimiter,
+  getRobotsCache,
+  RobotsDisallowedError,
+  USER_AGENT,
+} from '../http/index.js';
+
+export interface SiteTokenExtractorOptions {
+  // Linked stylesheets fetched per page, @import-ed ones included
+  maxStylesheets?: number;
+  // Larger stylesheets are truncated
+  maxStylesheetBytes?: number;
+}
+
+const COLOR_PROPERTIES = new Set([
+  'color', 'background', 'background-color', 'border', 'border-color', 'border-top-color',
+  'border-right-color', 'border-bottom-color', 'border-left-color', 'outline-color',
+  'fill', 'stroke', 'text-decoration-color', 'caret-color', 'accent-color',
+]);
+
+const SPACING_PROPERTIES = new Set([
+  'margin', 'margin-top', 'margin-right', 'margin-bottom', 'margin-left', 'margin-inline', 'margin-block',
+  'padding', 'padding-top', 'padding-right', 'padding-bottom', 'padding-left', 'padding-inline', 'padding-block',
+  'gap', 'row-gap', 'column-gap',
+]);
+
+const RADIUS_PROPERTIES = new Set([
+  'border-radius', 'border-top-left-radius', 'border-top-right-radius',
+  'border-bottom-right-radius', 'border-bottom-left-radius',
+]);
+
+const COLOR_PATTERN = /#[0-9a-f]{8}\b|#[0-9a-f]{6}\b|#[0-9a-f]{3,4}\b|rgba?\([^)]*\)|hsla?\([^)]*\)/gi;
+
+// Browsers resolve rem (and, at the root, em) against a 16px default
+const ROOT_FONT_SIZE = 16;
+
+const TOP_COUNTS = {
+  colors: 24,
+  fontFamilies: 10,
+  fontSizes: 20,
+  spacing: 20,
+  radii: 12,
+  shadows: 10,
+};
+
+/**
+ * Reads colors, type, spacing, radii and shadows from a live website's CSS:
+ * the page's <style> blocks plus its linked (and @import-ed) stylesheets.
+ */
+export class SiteTokenExtractor {
+  private maxStylesheets: number;
+  private maxStylesheetBytes: number;
+
+  constructor(options: SiteTokenExtractorOptions = {}) {
+    this.maxStylesheets = options.maxStylesheets ?? 10;
+    this.maxStylesheetBytes = options.maxStylesheetBytes ?? 2 * 1024 * 1024;
+  }
+
+  /**
+   * Fetch a page and its stylesheets and extract their tokens
+   */
+  async extract(url: string): Promise<SiteTokens> {
+    const html = await this.fetchText(url);
+    const $ = cheerio.load(html);
+
+    const queue = $('link[rel~="stylesheet"][href], link[rel="preload"][as="style"][href]')
+      .map((_, el) => $(el).attr('href')!)
+      .get()
+      .map(href => this.resolveUrl(href, url))
+      .filter((href): href is string => !!href && !this.isGoogleFontsUrl(href));
+
+    const stylesheets: Array<{ url: string; css: string }> = [];
+    const visited = new Set<string>();
+
+    while (queue.length && visited.size < this.maxStylesheets) {
+      const sheetUrl = queue.shift()!;
+      if (visited.has(sheetUrl)) continue;
+      visited.add(sheetUrl);
+
+      try {
+        const css = (await this.fetchText(sheetUrl)).slice(0, this.maxStylesheetBytes);
+        stylesheets.push({ url: sheetUrl, css });
+        queue.push(...this.importUrls(css, sheetUrl).filter(href => !this.isGoogleFontsUrl(href)));
+      } catch (error) {
+        if (!(error instanceof RobotsDisallowedError)) {
+          console.error(`Error fetching stylesheet ${sheetUrl}:`, error);
+        }
+      }
+    }
+
+    return this.parse(url, html, stylesheets);
+  }
+
+  /**
+   * Extract tokens from already fetched HTML and CSS
+   */
+  parse(url: string, html: string, stylesheets: Array<{ url: string; css: string }> = []): SiteTokens {
+    const $ = cheerio.load(html);
+    const sources = [
+      ...$('style').map((_, el) => ({ url, css: $(el).text() })).get(),
+      ...stylesheets,
+    ].map(sheet => ({ ...sheet, css: sheet.css.replace(/\/\*[\s\S]*?\*\//g, '') }));
+
+    const googleFontUrls = [
+      ...$('link[href*="fonts.googleapis.com"]').map((_, el) => $(el).attr('href')!).get(),
+      ...sources.flatMap(sheet => this.importUrls(sheet.css, sheet.url)),
+    ].filter(href => this.isGoogleFontsUrl(href));
+
+    // Custom properties first, so var() references elsewhere can be resolved
+    const declarations: Array<[string, string]> = [];
+    const customProperties: Record<string, string> = {};
+    const fontFaces: SiteTokens['fontFaces'] = [];
+
+    for (const { url: sheetUrl, css } of sources) {
+      for (const [, body] of css.matchAll(/@font-face\s*\{([^}]*)\}/gi)) {
+        const face = Object.fromEntries(this.parseDeclarations(body));
+        if (!face['font-family']) continue;
+        const src = face.src?.match(/url\(\s*['"]?([^'")]+)['"]?\s*\)/)?.[1];
+        fontFaces.push({
+          family: this.unquote(face['font-family']),
+          weight: face['font-weight'],
+          style: face['font-style'],
+          src: src ? this.resolveUrl(src, sheetUrl) || src : undefined,
+        });
+      }
+
+      const rules = css.replace(/@font-face\s*\{[^}]*\}/gi, '');
+      for (const [, body] of rules.matchAll(/\{([^{}]*)\}/g)) {
+        for (const [property, value] of this.parseDeclarations(body)) {
+          if (property.startsWith('--')) {
+            if (!(property in customProperties)) customProperties[property] = value;
+          } else {
+            declarations.push([property, value]);
+          }
+        }
+      }
+    }
+
+    const colors = new Map<string, number>();
+    const fontFamilies = new Map<string, number>();
+    const fontSizes = new Map<string, number>();
+    const spacing = new Map<string, number>();
+    const radii = new Map<string, number>();
+    const shadows = new Map<string, number>();
+    const bump = (counts: Map<string, number>, value: string | null) => {
+      if (value) counts.set(value, (counts.get(value) || 0) + 1);
+    };
+
+    // Color custom properties are the site's palette even where usages go through var()
+    for (const value of Object.values(customProperties)) {
+      this.colorsIn(this.resolveVars(value, customProperties)).forEach(hex => bump(colors, hex));
+    }
+
+    for (const [property, rawValue] of declarations) {
+      const value = this.resolveVars(rawValue, customProperties);
+      if (value.includes('var(')) continue;
+
+      if (COLOR_PROPERTIES.has(property)) {
+        this.colorsIn(value).forEach(hex => bump(colors, hex));
+      } else if (property === 'font-family') {
+        bump(fontFamilies, this.normalizeFontStack(value));
+      } else if (property === 'font-size') {
+        bump(fontSizes, this.toPx(value));
+      } else if (property === 'font') {
+        // font: [style] [weight] size[/line-height] family
+        const match = value.match(/([\d.]+(?:px|rem|em|pt))(?:\s*\/\s*[\w.%]+)?\s+(.+)$/);
+        if (match) {
+          bump(fontSizes, this.toPx(match[1]));
+          bump(fontFamilies, this.normalizeFontStack(match[2]));
+        }
+      } else if (SPACING_PROPERTIES.has(property)) {
+        value.split(/\s+/).forEach(part => bump(spacing, this.toPx(part.replace(/^-/, ''))));
+      } else if (RADIUS_PROPERTIES.has(property)) {
+        const first = value.split(/[\s/]+/)[0];
+        bump(radii, first.endsWith('%') ? first : this.toPx(first));
+      } else if (property === 'box-shadow' && !/^(none|inherit|initial|unset)$/i.test(value)) {
+        bump(shadows, value.replace(/\s+/g, ' ').trim());
+      }
+    }
+
+    return {
+      url,
+      fetchedAt: new Date().toISOString(),
+      stylesheets: stylesheets.map(sheet => sheet.url),
+      customProperties,
+      colors: this.top(colors, TOP_COUNTS.colors),
+      fontFamilies: this.top(fontFamilies, TOP_COUNTS.fontFamilies),
+      fontFaces,
+      googleFonts: [...new Set(googleFontUrls)].flatMap(href => this.parseGoogleFontsUrl(href)),
+      fontSizes: this.top(fontSizes, TOP_COUNTS.fontSizes),
+      spacing: this.top(spacing, TOP_COUNTS.spacing),
+      radii: this.top(radii, TOP_COUNTS.radii),
+      shadows: this.top(shadows, TOP_COUNTS.shadows),
+    };
+  }
+
+  /**
+   * Extract tokens for every item that links to a live site (`metadata.siteUrl`)
+   * and store them in `metadata.siteTokens`. Returns how many items got tokens.
+   */
+  async enrichItems(items: DesignItem[]): Promise<number> {
+    const byUrl = new Map<string, SiteTokens | null>();
+    let enriched = 0;
+
+    for (const item of items) {
+      const siteUrl = item.metadata?.siteUrl;
+      if (typeof siteUrl !== 'string') continue;
+
+      if (!byUrl.has(siteUrl)) {
+        try {
+          byUrl.set(siteUrl, await this.extract(siteUrl));
+        } catch (error) {
+          if (!(error instanceof RobotsDisallowedError)) {
+            console.error(`Error extracting site tokens from ${siteUrl}:`, error);
+          }
+          byUrl.set(siteUrl, null);
+        }
+      }
+
+      const tokens = byUrl.get(siteUrl);
+      if (tokens) {
+        item.metadata = { ...item.metadata, siteTokens: tokens };
+        enriched++;
+      }
+    }
+    return enriched;
+  }
+
+  /**
+   * Same politeness as collector page fetches: robots.txt, per-host rate limits,
+   * the HTTP cache and the record/replay cassette
+   */
+  private async fetchText(url: string): Promise<string> {
+    const live = getCassette().getMode() !== 'replay';
+    let crawlDelay: number | undefined;
+
+    if (live) {
+      const robots = await getRobotsCache().get(url);
+      if (!robots.isAllowed(url, USER_AGENT)) {
+        console.warn(`Skipping ${url}: disallowed by robots.txt`);
+        throw new RobotsDisallowedError(url);
+      }
+      crawlDelay = robots.getCrawlDelay(USER_AGENT);
+    }
+
+    const networkFetch = async (requestUrl: string, init?: RequestInit): Promise<Response> => {
+      if (live) {
+        await getRateLimiter().acquire(requestUrl, undefined, crawlDelay);
+      }
+      return getCassette().fetch(requestUrl, init);
+    };
+
+    const init: RequestInit = { headers: { 'User-Agent': USER_AGENT } };
+    const response = getCassette().getMode() === 'off'
+      ? await getHttpCache().fetch(url, init, networkFetch)
+      : await networkFetch(url, init);
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    return response.text();
+  }
+
+  private parseDeclarations(body: string): Array<[string, string]> {
+    return body.split(';').flatMap(declaration => {
+      const colon = declaration.indexOf(':');
+      if (colon === -1) return [];
+      const property = declaration.slice(0, colon).trim();
+      const value = declaration.slice(colon + 1).replace(/!important/i, '').trim();
+      return property && value ? [[property.startsWith('--') ? property : property.toLowerCase(), value]] : [];
+    });
+  }
+
+  private resolveVars(value: string, customProperties: Record<string, string>, depth = 0): string {
+    if (depth > 5 || !value.includes('var(')) return value;
+    const resolved = value.replace(/var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*(?:\([^()]*\))?[^()]*))?\)/g,
+      (match, name: string, fallback?: string) => customProperties[name] ?? fallback?.trim() ?? match);
+    return resolved === value ? value : this.resolveVars(resolved, customProperties, depth + 1);
+  }
+
+  /**
+   * Opaque colors in a value as lowercase #rrggbb
+   */
+  private colorsIn(value: string): string[] {
+    return (value.match(COLOR_PATTERN) || [])
+      .map(color => this.toHex(color))
+      .filter((hex): hex is string => !!hex);
+  }
+
+  private toHex(color: string): string | null {
+    const lower = color.toLowerCase();
+    const channel = (n: number) => Math.max(0, Math.min(255, Math.round(n))).toString(16).padStart(2, '0');
+
+    if (lower.startsWith('#')) {
+      const digits = lower.slice(1);
+      if (digits.length === 3 || digits.length === 4) {
+        if (digits.length === 4 && digits[3] === '0') return null;
+        return `#${digits.slice(0, 3).split('').map(d => d + d).join('')}`;
+      }
+      if (digits.length === 8 && digits.slice(6) === '00') return null;
+      return `#${digits.slice(0, 6)}`;
+    }
+
+    const parts = (lower.match(/-?[\d.]+%?/g) || []).slice(0, 4);
+    if (parts.length < 3) return null;
+    const alpha = parts[3] ? parseFloat(parts[3]) / (parts[3].endsWith('%') ? 100 : 1) : 1;
+    if (alpha === 0) return null;
+
+    if (lower.startsWith('rgb')) {
+      const [r, g, b] = parts.map(p => p.endsWith('%') ? parseFloat(p) * 2.55 : parseFloat(p));
+      return `#${channel(r)}${channel(g)}${channel(b)}`;
+    }
+
+    const h = parseFloat(parts[0]) / 360;
+    const s = parseFloat(parts[1]) / 100;
+    const l = parseFloat(parts[2]) / 100;
+    const hue = (p: number, q: number, t: number) => {
+      if (t < 0) t += 1;
+      if (t > 1) t -= 1;
+      if (t < 1 / 6) return p + (q - p) * 6 * t;
+      if (t < 1 / 2) return q;
+      if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+      return p;
+    };
+    if (s === 0) return `#${channel(l * 255).repeat(3)}`;
+    const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+    const p = 2 * l - q;
+    return `#${channel(hue(p, q, h + 1 / 3) * 255)}${channel(hue(p, q, h) * 255)}${channel(hue(p, q, h - 1 / 3) * 255)}`;
+  }
+
+  /**
+   * Pixel value of a length; clamp() resolves to its maximum. Null for keywords,
+   * percentages and zero.
+   */
+  private toPx(value: string): string | null {
+    const clamp = value.match(/^clamp\((.+)\)$/i);
+    const length = clamp ? clamp[1].split(',').pop()!.trim() : value.trim();
+
+    const match = length.match(/^([\d.]+)(px|rem|em|pt)$/i);
+    if (!match) return null;
+
+    const amount = parseFloat(match[1]);
+    const unit = match[2].toLowerCase();
+    const px = unit === 'px' ? amount : unit === 'pt' ? amount * 4 / 3 : amount * ROOT_FONT_SIZE;
+    return px > 0 ? `${Number(px.toFixed(2))}px` : null;
+  }
+
+  private normalizeFontStack(value: string): string | null {
+    const families = value.split(',').map(family => this.unquote(family.trim())).filter(Boolean);
+    if (!families.length || /^(inherit|initial|unset|revert)$/i.test(families[0])) return null;
+    return families.join(', ');
+  }
+
+  private unquote(value: string): string {
+    return value.trim().replace(/^['"]|['"]$/g, '');
+  }
+
+  private importUrls(css: string, baseUrl: string): string[] {
+    return [...css.matchAll(/@import\s+(?:url\(\s*)?['"]?([^'")\s;]+)['"]?\s*\)?/gi)]
+      .map(match => this.resolveUrl(match[1], baseUrl))
+      .filter((href): href is string => !!href);
+  }
+
+  private isGoogleFontsUrl(href: string): boolean {
+    return href.includes('fonts.googleapis.com');
+  }
+
+  /**
+   * Families and weights from css2 (`family=Inter:wght@400;700`) and
+   * legacy (`family=Inter:400,700|Roboto`) Google Fonts URLs
+   */
+  private parseGoogleFontsUrl(href: string): SiteTokens['googleFonts'] {
+    let url: URL;
+    try {
+      url = new URL(href, 'https://fonts.googleapis.com');
+    } catch {
+      return [];
+    }
+
+    return url.searchParams.getAll('family')
+      .flatMap(param => param.split('|'))
+      .map(spec => {
+        const [family, axes = ''] = spec.split(':');
+        let weights: string[];
+        if (axes.includes('@')) {
+          const [names, tuples] = axes.split('@');
+          const wghtIndex = names.split(',').indexOf('wght');
+          weights = wghtIndex === -1 ? [] : tuples.split(';').map(tuple => tuple.split(',')[wghtIndex]);
+        } else {
+          weights = axes ? axes.split(',') : [];
+        }
+        return { family: family.replace(/\+/g, ' '), weights: [...new Set(weights.filter(Boolean))] };
+      })
+      .filter(font => font.family);
+  }
+
+  private resolveUrl(href: string, baseUrl: string): string | null {
+    if (href.startsWith('data:')) return null;
+    try {
+      return new URL(href, baseUrl).href;
+    } catch {
+      return null;
+    }
+  }
+
+  private top(counts: Map<string, number>, limit: number): TokenCount[] {
+    return [...counts.entries()]
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, limit)
+      .map(([value, count]) => ({ value, count }));
+  }
+}
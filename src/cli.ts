@@ -1,30 +1,162 @@
 #!/usr/bin/env node
 
+import 'dotenv/config';
 import { Command } from 'commander';
+import * as fs from 'fs/promises';
+import * as path from 'path';
 import { getDesignScoutAgent } from './agents/index.js';
-import type { DesignSource, DesignCategory, DesignStyle } from './types/index.js';
+import { FigmaTokenImporter, SiteTokenExtractor, loadDesignTokens } from './analyzers/index.js';
+import {
+  CollectorFactory,
+  CollectorProgress,
+  applyProjectConfig,
+  getScrapeSpecs,
+  DEFAULT_CONFIG_FILE,
+} from './collectors/index.js';
+import { configureCassette, configureHttpCache, getHttpCache, parseCassetteMode } from './http/index.js';
+import { SamplingStrategySchema } from './types/index.js';
+import type { DesignSource, DesignCategory, DesignStyle, SamplingStrategy } from './types/index.js';
 
 const program = new Command();
 
 program
   .name('design-scout')
   .description('AI-powered design trend collection and proposal agent')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--config <path>', 'Project config file with custom collectors', DEFAULT_CONFIG_FILE)
+  .option('--http-mode <mode>', 'HTTP record/replay mode: off, record, replay (env: DESIGN_SCOUT_HTTP_MODE)')
+  .option('--cassette-dir <dir>', 'Directory for recorded HTTP cassettes (env: DESIGN_SCOUT_CASSETTE_DIR)')
+  .option('--no-cache', 'Bypass the on-disk HTTP cache (env: DESIGN_SCOUT_CACHE=off)')
+  .hook('preAction', async () => {
+    const globalOptions = program.opts();
+    try {
+      configureCassette({
+        mode: globalOptions.httpMode ? parseCassetteMode(globalOptions.httpMode) : undefined,
+        dir: globalOptions.cassetteDir,
+      });
+      await applyProjectConfig(globalOptions.config);
+      if (globalOptions.cache === false) {
+        configureHttpCache({ enabled: false });
+      }
+    } catch (error) {
+      console.error('Error initializing:', error);
+      process.exit(1);
+    }
+  });
+
+function parseSources(value: string): DesignSource[] {
+  const sources = value.split(',').map(s => s.trim()).filter(Boolean);
+  const unknown = sources.filter(s => !CollectorFactory.isRegistered(s));
+  if (unknown.length) {
+    console.error(`Unknown source(s): ${unknown.join(', ')}`);
+    console.error(`Available: ${CollectorFactory.getRegisteredSources().join(', ')}`);
+    process.exit(1);
+  }
+  return sources;
+}
+
+/**
+ * Read --sampling and --source-weights (e.g. "dribbble=2,awwwards=1")
+ */
+function parseSampling(options: { sampling?: string; sourceWeights?: string }): {
+  sampling?: SamplingStrategy;
+  sourceWeights?: Partial<Record<DesignSource, number>>;
+} {
+  let sampling: SamplingStrategy | undefined;
+  if (options.sampling) {
+    const parsed = SamplingStrategySchema.safeParse(options.sampling);
+    if (!parsed.success) {
+      console.error(`Unknown sampling strategy: ${options.sampling}`);
+      console.error(`Available: ${SamplingStrategySchema.options.join(', ')}`);
+      process.exit(1);
+    }
+    sampling = parsed.data;
+  }
+
+  if (!options.sourceWeights) return { sampling };
+
+  const sourceWeights: Partial<Record<DesignSource, number>> = {};
+  for (const pair of options.sourceWeights.split(',').map(p => p.trim()).filter(Boolean)) {
+    const [source, value] = pair.split('=');
+    const weight = Number(value);
+    if (!source || value === undefined || !isFinite(weight) || weight < 0) {
+      console.error(`Invalid source weight "${pair}", expected source=number`);
+      process.exit(1);
+    }
+    sourceWeights[source.trim()] = weight;
+  }
+  // Weights only mean something to the weighted strategy
+  return { sampling: sampling || 'weighted', sourceWeights };
+}
+
+/**
+ * Print a line per fetched page and finished source
+ */
+function createProgressReporter(): CollectorProgress {
+  const failed = new Set<DesignSource>();
+  return new CollectorProgress()
+    .on('page', ({ source, itemsParsed }) => {
+      console.log(`  ${source}: page fetched (${itemsParsed} items)`);
+    })
+    .on('source-error', ({ source, error, cancelled }) => {
+      failed.add(source);
+      console.log(`  ✗ ${source}: ${cancelled ? 'cancelled' : error instanceof Error ? error.message : String(error)}`);
+    })
+    .on('source-done', ({ source, items, metrics }) => {
+      if (failed.has(source)) return;
+      console.log(`  ✓ ${source}: ${items} items (${metrics.pagesFetched} pages, ${(metrics.durationMs / 1000).toFixed(1)}s)`);
+    });
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * The first Ctrl+C cancels collection and keeps what finished; the second quits
+ */
+function cancelOnInterrupt(): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const onInterrupt = () => {
+    console.log('\nCancelling collection... (Ctrl+C again to quit)');
+    controller.abort();
+    process.once('SIGINT', () => process.exit(130));
+  };
+  process.once('SIGINT', onInterrupt);
+  return { signal: controller.signal, dispose: () => process.off('SIGINT', onInterrupt) };
+}
 
 program
   .command('scout')
   .description('Scout for design inspiration from multiple sources')
-  .option('-s, --sources <sources>', 'Comma-separated sources (dribbble,awwwards,mobbin,behance,figma,pinterest)', 'dribbble,awwwards,mobbin')
+  .option('-s, --sources <sources>', 'Comma-separated sources (see `design-scout sources`)', 'dribbble,awwwards,mobbin')
   .option('-c, --category <category>', 'Target category (web,mobile-ios,dashboard,etc)')
   .option('-q, --query <query>', 'Search query')
   .option('-l, --limit <number>', 'Maximum items to collect', '30')
   .option('--sort <type>', 'Sort by: popular, recent, trending', 'popular')
+  .option('--max-pages <number>', 'Maximum pages to fetch per endpoint')
+  .option('--sampling <strategy>', 'Balance items: proportional, equal-per-source, stratified-by-category, weighted')
+  .option('--source-weights <weights>', 'Per-source weights for weighted sampling, e.g. dribbble=2,awwwards=1')
+  .option('--enrich', 'Visit each item\'s detail page for full-size images, tags and descriptions')
+  .option('--site-tokens', 'Extract colors, fonts and spacing from the live sites items link to')
   .option('--save', 'Save collected designs to local store')
-  .action(async (options) => {
+  .option('--cache-assets', 'With --save, download the designs\' images and thumbnails into data/assets')
+  .option('--incremental', 'Skip designs already in the store; with --sort recent, stop paginating at the first of them')
+  .option('--following', 'Collect the latest work from followed designers\' profiles (narrow with an explicit --sources)')
+  .option('--no-progress', 'Hide live per-source progress')
+  .action(async (options, command: Command) => {
     const agent = getDesignScoutAgent();
 
-    const sources = options.sources.split(',') as DesignSource[];
+    // With --following, the default source list would drop followed Behance profiles
+    const sources = options.following && command.getOptionValueSource('sources') !== 'cli'
+      ? undefined
+      : parseSources(options.sources);
     const categories = options.category ? [options.category] as DesignCategory[] : undefined;
+    const interrupt = cancelOnInterrupt();
 
     try {
       const items = await agent.scout({
@@ -33,8 +165,18 @@ program
         searchQuery: options.query,
         limit: parseInt(options.limit),
         sortBy: options.sort,
+        maxPages: options.maxPages ? parseInt(options.maxPages) : undefined,
+        enrich: options.enrich,
+        siteTokens: options.siteTokens,
         saveToStore: options.save,
+        cacheAssets: options.cacheAssets,
+        incremental: options.incremental,
+        following: options.following,
+        ...parseSampling(options),
+        progress: options.progress ? createProgressReporter() : undefined,
+        signal: interrupt.signal,
       });
+      interrupt.dispose();
 
       console.log('\n' + agent.getSummary());
       console.log('\nTop 5 Items:');
@@ -53,6 +195,39 @@ program
     }
   });
 
+program
+  .command('import-search <file>')
+  .description('Import the JSON results of the web-search prompt into the store (use - for stdin)')
+  .option('-c, --category <category>', 'Category for the imported designs', 'web')
+  .option('-q, --query <query>', 'Query the searches were run for')
+  .action(async (file: string, options) => {
+    const agent = getDesignScoutAgent();
+
+    try {
+      const content = file === '-' ? await readStdin() : await fs.readFile(file, 'utf-8');
+      const { imported, duplicates, rejected } = await agent.importSearchResults(content, {
+        category: options.category as DesignCategory,
+        query: options.query,
+      });
+
+      if (rejected.length) {
+        console.log(`Rejected ${rejected.length} rows:`);
+        for (const row of rejected) {
+          console.log(`  #${row.index + 1}: ${row.issues}`);
+        }
+      }
+
+      console.log(`\n✓ Imported ${imported.length} designs (${duplicates.length} duplicates skipped)`);
+      const sources = [...new Set(imported.map(item => item.source))];
+      if (sources.length) {
+        console.log(`Sources: ${sources.join(', ')}`);
+      }
+    } catch (error) {
+      console.error('Error importing search results:', error);
+      process.exit(1);
+    }
+  });
+
 program
   .command('analyze')
   .description('Analyze collected designs for trends')
@@ -87,6 +262,9 @@ program
   .option('-p, --platform <platform>', 'Target platform (web, ios, android, cross-platform)', 'web')
   .option('-o, --output <dir>', 'Output directory', './output')
   .option('--no-outputs', 'Skip generating output files')
+  .option('--tokens <path>', 'Design tokens from `figma-tokens -o`, or a saved Figma file snapshot')
+  .option('--token-mode <mode>', 'Start from the tokens or compare against them (start, compare)', 'start')
+  .option('--local-assets', 'Show cached local copies of images (see `assets cache`) instead of hotlinking')
   .action(async (options) => {
     const agent = getDesignScoutAgent();
 
@@ -96,6 +274,9 @@ program
         targetPlatform: options.platform,
         generateOutputs: options.outputs,
         outputDir: options.output,
+        designTokens: options.tokens ? await loadDesignTokens(options.tokens) : undefined,
+        tokenMode: options.tokenMode === 'compare' ? 'compare' : 'start',
+        localAssets: options.localAssets,
       });
 
       console.log('\n=== Design Proposal Generated ===\n');
@@ -109,6 +290,13 @@ program
       console.log(`  Secondary: ${proposal.colorPalette.secondary}`);
       console.log(`  Accent: ${proposal.colorPalette.accent}`);
 
+      if (proposal.tokenComparison) {
+        console.log(`\nLibrary match (${proposal.designTokens?.name}): ${proposal.tokenComparison.score}%`);
+        proposal.tokenComparison.colors
+          .filter(c => !c.matches)
+          .forEach(c => console.log(`  ${c.role}: ${c.proposed} vs ${c.library} (nearest: ${c.nearest.name})`));
+      }
+
       if (outputs) {
         console.log('\nGenerated Files:');
         console.log(`  Moodboard: ${outputs.moodboardPath}`);
@@ -129,7 +317,11 @@ program
   .option('-l, --limit <number>', 'Maximum items to collect', '30')
   .requiredOption('-c, --category <category>', 'Target category')
   .option('-p, --platform <platform>', 'Target platform', 'web')
+  .option('--enrich', 'Visit each item\'s detail page before analyzing')
+  .option('--sampling <strategy>', 'Balance items: proportional, equal-per-source, stratified-by-category, weighted')
+  .option('--source-weights <weights>', 'Per-source weights for weighted sampling, e.g. dribbble=2,awwwards=1')
   .option('-o, --output <dir>', 'Output directory', './output')
+  .option('--local-assets', 'Save the designs, cache their images and show the local copies in the outputs')
   .action(async (options) => {
     const agent = getDesignScoutAgent();
 
@@ -138,14 +330,19 @@ program
 
       const result = await agent.run(
         {
-          sources: options.sources.split(',') as DesignSource[],
+          sources: parseSources(options.sources),
           searchQuery: options.query,
           limit: parseInt(options.limit),
+          enrich: options.enrich,
+          ...parseSampling(options),
+          saveToStore: options.localAssets,
+          cacheAssets: options.localAssets,
         },
         {
           targetCategory: options.category as DesignCategory,
           targetPlatform: options.platform,
           outputDir: options.output,
+          localAssets: options.localAssets,
         }
       );
 
@@ -179,6 +376,7 @@ program
       console.log(`Total Designs: ${stats.totalDesigns}`);
       console.log(`Favorites: ${stats.totalFavorites}`);
       console.log(`Collections: ${stats.totalCollections}`);
+      console.log(`New This Week: ${stats.newThisWeek}`);
 
       if (Object.keys(stats.designsBySource).length > 0) {
         console.log('\nBy Source:');
@@ -221,7 +419,7 @@ program
 
       console.log('\n=== Collection History ===\n');
       if (history.length === 0) {
-        console.log('No history yet. Run `design-scout scout --save` to start collecting.');
+        console.log('No history yet. Run `design-scout scout` to start collecting.');
       } else {
         history.forEach((entry, i) => {
           const date = new Date(entry.collectedAt).toLocaleString();
@@ -229,6 +427,15 @@ program
           console.log(`   Query: ${entry.query || '(no query)'}`);
           console.log(`   Sources: ${entry.sources.join(', ')}`);
           console.log(`   Items: ${entry.itemCount}`);
+          if (entry.newItems !== undefined) {
+            console.log(`   New: ${entry.newItems}, already stored: ${entry.updatedItems ?? 0}`);
+          }
+          if (entry.sourceMetrics?.length) {
+            const perSource = entry.sourceMetrics
+              .map(m => `${m.source} ${m.itemsReturned} (${m.pagesFetched} pages)`)
+              .join(', ');
+            console.log(`   Per source: ${perSource}`);
+          }
           console.log('');
         });
       }
@@ -238,4 +445,395 @@ program
     }
   });
 
-program.parse();
+program
+  .command('doctor')
+  .description('Flag sources whose yield fell to zero or dropped sharply compared with previous runs')
+  .option('--baseline <number>', 'Number of earlier runs to compare against', '5')
+  .option('--threshold <percent>', 'Yield drop that marks a source as degraded', '50')
+  .action(async (options) => {
+    const agent = getDesignScoutAgent();
+
+    try {
+      const report = await agent.getSourceHealth({
+        baselineRuns: parseInt(options.baseline),
+        dropThreshold: parseFloat(options.threshold) / 100,
+      });
+
+      console.log('\n=== Collector Health ===\n');
+      if (report.length === 0) {
+        console.log('No run metrics yet. Run `design-scout scout` to start collecting.');
+        return;
+      }
+
+      const icons = { ok: '✓', degraded: '!', failing: '✗' };
+      for (const health of report) {
+        const baseline = health.baselineYield !== undefined ? ` (baseline ${health.baselineYield.toFixed(1)})` : '';
+        console.log(`${icons[health.status]} ${health.source}: ${health.status}, ${health.yieldPerPage.toFixed(1)} items/page${baseline}`);
+        console.log(`   Last run: ${health.lastRunAt.toLocaleString()}`);
+        health.problems.forEach(problem => console.log(`   - ${problem}`));
+      }
+
+      // Non-zero exit so scheduled runs can alert on broken sources
+      if (report.some(health => health.status !== 'ok')) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      console.error('Error checking collector health:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('site-tokens <url>')
+  .description('Extract design tokens from a live website\'s production CSS')
+  .option('--json', 'Print the full token set as JSON')
+  .action(async (url: string, options) => {
+    try {
+      const tokens = await new SiteTokenExtractor().extract(url);
+      if (options.json) {
+        console.log(JSON.stringify(tokens, null, 2));
+        return;
+      }
+
+      const list = (counts: Array<{ value: string; count: number }>, limit: number) =>
+        counts.slice(0, limit).map(c => `${c.value} (${c.count})`).join(', ') || 'none';
+
+      console.log(`\n=== Site Tokens: ${tokens.url} ===\n`);
+      console.log(`Stylesheets: ${tokens.stylesheets.length}`);
+      console.log(`Custom properties: ${Object.keys(tokens.customProperties).length}`);
+      console.log(`Colors: ${list(tokens.colors, 8)}`);
+      console.log(`Font families: ${list(tokens.fontFamilies, 4)}`);
+      console.log(`Font faces: ${[...new Set(tokens.fontFaces.map(f => f.family))].join(', ') || 'none'}`);
+      console.log(`Google Fonts: ${tokens.googleFonts.map(f => f.family).join(', ') || 'none'}`);
+      console.log(`Font sizes: ${list(tokens.fontSizes, 8)}`);
+      console.log(`Spacing: ${list(tokens.spacing, 8)}`);
+      console.log(`Radii: ${list(tokens.radii, 6)}`);
+      console.log(`Shadows: ${list(tokens.shadows, 3)}`);
+    } catch (error) {
+      console.error('Error extracting site tokens:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('figma-tokens [fileKey]')
+  .description('Import color, text and effect styles and variables from a Figma file as design tokens')
+  .option('--from-json <path>', 'Read a saved snapshot or GET /v1/files/:key response instead of the API')
+  .option('--save-json <path>', 'Save the fetched API responses as a snapshot for offline re-imports')
+  .option('-o, --output <path>', 'Write the token set as JSON (usable with `propose --tokens`)')
+  .action(async (fileKey: string | undefined, options) => {
+    const importer = new FigmaTokenImporter();
+
+    try {
+      let tokens;
+      if (options.fromJson) {
+        tokens = await importer.importFromJson(options.fromJson);
+      } else if (fileKey) {
+        const snapshot = await importer.fetchSnapshot(fileKey);
+        if (options.saveJson) {
+          await fs.mkdir(path.dirname(options.saveJson), { recursive: true });
+          await fs.writeFile(options.saveJson, JSON.stringify(snapshot, null, 2), 'utf-8');
+          console.log(`Snapshot saved to ${options.saveJson}`);
+        }
+        tokens = importer.extract(snapshot);
+      } else {
+        console.error('Pass a Figma file key or --from-json <path>');
+        process.exit(1);
+      }
+
+      console.log(`\n=== Design Tokens: ${tokens.name} ===\n`);
+      console.log(`Colors: ${Object.keys(tokens.colors).length}`);
+      console.log(`  Primary: ${tokens.colorPalette.primary}`);
+      console.log(`  Secondary: ${tokens.colorPalette.secondary}`);
+      console.log(`  Accent: ${tokens.colorPalette.accent}`);
+      if (tokens.unmappedRoles.length) {
+        console.log(`  Not in library (defaults kept): ${tokens.unmappedRoles.join(', ')}`);
+      }
+      console.log(`Typography: ${tokens.typography.map(t => `${t.role} ${t.fontFamily} ${t.fontSize}`).join(', ') || 'none'}`);
+      console.log(`Shadows: ${tokens.shadows.map(s => s.name).join(', ') || 'none'}`);
+      console.log(`Radii: ${tokens.radii.map(r => r.value).join(', ') || 'none'}`);
+
+      if (options.output) {
+        await fs.mkdir(path.dirname(options.output), { recursive: true });
+        await fs.writeFile(options.output, JSON.stringify(tokens, null, 2), 'utf-8');
+        console.log(`\nTokens written to ${options.output}`);
+      }
+    } catch (error) {
+      console.error('Error importing Figma tokens:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('sources')
+  .description('List available design sources, including custom collectors')
+  .action(() => {
+    console.log('\n=== Design Sources ===\n');
+    CollectorFactory.getRegisteredSources().forEach(source => {
+      console.log(`  ${source}`);
+    });
+  });
+
+program
+  .command('follow <designer>')
+  .description('Follow a designer by Dribbble, Behance or Awwwards profile URL, or by name if already in the store')
+  .option('-n, --name <name>', 'Name to store for a profile URL (defaults to the handle)')
+  .action(async (target: string, options) => {
+    const agent = getDesignScoutAgent();
+
+    try {
+      const designer = await agent.follow(target, { name: options.name });
+      console.log(`Following ${designer.name} (${designer.id})`);
+      for (const profile of designer.profiles) {
+        console.log(`   ${profile.source}: ${profile.url}`);
+      }
+      console.log('Collect their latest work with `design-scout scout --following`');
+    } catch (error) {
+      console.error('Error following designer:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('unfollow <designer>')
+  .description('Stop following a designer (name, ID or profile URL)')
+  .action(async (target: string) => {
+    const agent = getDesignScoutAgent();
+
+    try {
+      if (await agent.unfollow(target)) {
+        console.log(`Unfollowed ${target}`);
+      } else {
+        console.log(`Not following ${target}`);
+      }
+    } catch (error) {
+      console.error('Error unfollowing designer:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('designers')
+  .description('List designers from stored works with their sources, styles and engagement')
+  .option('--followed', 'Only followed designers')
+  .option('-l, --limit <number>', 'Number of designers to show', '20')
+  .option('--json', 'Print the designers as JSON')
+  .action(async (options) => {
+    const agent = getDesignScoutAgent();
+
+    try {
+      const designers = (await agent.getDesigners({ followedOnly: options.followed })).slice(0, parseInt(options.limit));
+      if (options.json) {
+        console.log(JSON.stringify(designers, null, 2));
+        return;
+      }
+      if (!designers.length) {
+        console.log(options.followed ? 'Not following anyone yet. Use `design-scout follow <profile-url>`.' : 'No designers yet');
+        return;
+      }
+
+      console.log(`\n=== Designers (${designers.length}) ===\n`);
+      for (const designer of designers) {
+        console.log(`${designer.followed ? '★ ' : ''}${designer.name} (${designer.id})`);
+        console.log(`   Works: ${designer.works}  Sources: ${designer.sources.join(', ') || '-'}`);
+        if (designer.topStyles.length) console.log(`   Styles: ${designer.topStyles.join(', ')}`);
+        if (designer.averageEngagement !== undefined) console.log(`   Engagement: ${designer.averageEngagement}`);
+        if (designer.latestWorkAt) console.log(`   Latest work: ${new Date(designer.latestWorkAt).toLocaleDateString()}`);
+        if (designer.lastCheckedAt) console.log(`   Last checked: ${new Date(designer.lastCheckedAt).toLocaleString()}`);
+      }
+    } catch (error) {
+      console.error('Error listing designers:', error);
+      process.exit(1);
+    }
+  });
+
+const assets = program
+  .command('assets')
+  .description('Manage local copies of design images');
+
+assets
+  .command('cache [ids...]')
+  .description('Download stored designs\' images (all designs when no IDs are given) with WebP thumbnails')
+  .option('-i, --images <number>', 'Images to cache per design', '1')
+  .option('--force', 'Download again even when already cached')
+  .action(async (ids: string[], options) => {
+    const agent = getDesignScoutAgent();
+
+    try {
+      const result = await agent.cacheAssets({
+        ids: ids.length ? ids : undefined,
+        imagesPerDesign: parseInt(options.images),
+        force: options.force,
+      });
+      console.log(`Cached ${result.cached} images for ${result.designs} designs (${result.failed} failed)`);
+    } catch (error) {
+      console.error('Error caching assets:', error);
+      process.exit(1);
+    }
+  });
+
+assets
+  .command('gc')
+  .description('Delete cached images that no stored design references')
+  .option('--dry-run', 'List what would be deleted')
+  .action(async (options) => {
+    const agent = getDesignScoutAgent();
+
+    try {
+      const { removed, freedBytes } = await agent.collectAssetGarbage({ dryRun: options.dryRun });
+      if (options.dryRun) {
+        removed.forEach(file => console.log(`  ${file}`));
+      }
+      const verb = options.dryRun ? 'Would remove' : 'Removed';
+      console.log(`${verb} ${removed.length} files (${(freedBytes / (1024 * 1024)).toFixed(1)} MB)`);
+    } catch (error) {
+      console.error('Error collecting asset garbage:', error);
+      process.exit(1);
+    }
+  });
+
+assets
+  .command('stats')
+  .description('Show the size of the asset cache')
+  .action(async () => {
+    const agent = getDesignScoutAgent();
+
+    try {
+      const stats = await agent.getAssetStats();
+      const mb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+      console.log(`Files: ${stats.files}`);
+      console.log(`Size: ${mb(stats.totalBytes)} MB of ${mb(stats.maxTotalBytes)} MB`);
+    } catch (error) {
+      console.error('Error reading asset cache:', error);
+      process.exit(1);
+    }
+  });
+
+const quarantine = program
+  .command('quarantine')
+  .description('List and repair items that failed validation');
+
+quarantine
+  .command('list')
+  .description('List quarantined items with their validation errors')
+  .option('--json', 'Print the raw items as JSON')
+  .action(async (options) => {
+    const agent = getDesignScoutAgent();
+
+    try {
+      const entries = await agent.getQuarantine();
+      if (options.json) {
+        console.log(JSON.stringify(entries, null, 2));
+        return;
+      }
+      if (!entries.length) {
+        console.log('Quarantine is empty');
+        return;
+      }
+
+      console.log(`\n=== Quarantine (${entries.length}) ===\n`);
+      for (const entry of entries) {
+        const { title, source, sourceUrl } = entry.item;
+        console.log(`${entry.id}  [${entry.origin}]  ${String(title || '(no title)')} (${String(source || 'unknown')})`);
+        if (sourceUrl) console.log(`   URL: ${String(sourceUrl)}`);
+        console.log(`   Error: ${entry.error}`);
+      }
+    } catch (error) {
+      console.error('Error listing quarantine:', error);
+      process.exit(1);
+    }
+  });
+
+quarantine
+  .command('repair [ids...]')
+  .description('Repair quarantined items (all when no IDs are given) and move the valid ones into the store')
+  .option('--set <field=value...>', 'Set fields before repairing; values are parsed as JSON when possible')
+  .action(async (ids: string[], options) => {
+    const agent = getDesignScoutAgent();
+
+    try {
+      const fixes: Record<string, unknown> = {};
+      for (const assignment of (options.set || []) as string[]) {
+        const separator = assignment.indexOf('=');
+        if (separator < 1) {
+          console.error(`Invalid --set "${assignment}", expected field=value`);
+          process.exit(1);
+        }
+        const value = assignment.slice(separator + 1);
+        try {
+          fixes[assignment.slice(0, separator)] = JSON.parse(value);
+        } catch {
+          fixes[assignment.slice(0, separator)] = value;
+        }
+      }
+
+      const targets = ids.length ? ids : (await agent.getQuarantine()).map(entry => entry.id);
+      let repaired = 0;
+      for (const id of targets) {
+        const result = await agent.repairQuarantined(id, fixes);
+        if (result.repaired) {
+          repaired++;
+          console.log(`✓ ${id}: saved as ${result.design.id}`);
+        } else {
+          console.log(`✗ ${id}: ${result.error}`);
+        }
+      }
+      console.log(`\nRepaired ${repaired} of ${targets.length} items`);
+    } catch (error) {
+      console.error('Error repairing quarantine:', error);
+      process.exit(1);
+    }
+  });
+
+quarantine
+  .command('drop [id]')
+  .description('Discard a quarantined item, or all of them')
+  .action(async (id?: string) => {
+    const agent = getDesignScoutAgent();
+
+    try {
+      const count = await agent.discardQuarantined(id);
+      console.log(`Discarded ${count} quarantined items`);
+    } catch (error) {
+      console.error('Error discarding quarantined items:', error);
+      process.exit(1);
+    }
+  });
+
+const cache = program
+  .command('cache')
+  .description('Manage the on-disk HTTP cache');
+
+cache
+  .command('clear')
+  .description('Delete all cached HTTP responses')
+  .action(async () => {
+    try {
+      const { entries, totalBytes } = await getHttpCache().clear();
+      console.log(`Cleared ${entries} cached responses (${(totalBytes / 1024 / 1024).toFixed(1)} MB)`);
+    } catch (error) {
+      console.error('Error clearing cache:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('specs')
+  .description('List the scrape specs in use, with their version and origin')
+  .action(async () => {
+    try {
+      const specs = await getScrapeSpecs().list();
+      if (!specs.length) {
+        console.log('No scrape specs found');
+        return;
+      }
+      for (const spec of specs) {
+        console.log(`${spec.source.padEnd(14)} v${spec.version}  ${spec.origin.padEnd(8)}  ${spec.path}`);
+      }
+    } catch (error) {
+      console.error('Error listing scrape specs:', error);
+      process.exit(1);
+    }
+  });
+
+program.parseAsync();
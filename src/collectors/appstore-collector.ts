@@ -0,0 +1,274 @@
+import type { DesignItem, CollectorConfig, DesignCategory, DesignStyle } from '../types/index.js';
+import { BaseCollector, type PageResult, type PageState } from './base-collector.js';
+
+/**
+ * Collects shipped app UIs from the public iTunes Search/Lookup JSON endpoints.
+ */
+export class AppStoreCollector extends BaseCollector {
+  private country: string;
+
+  constructor(country: string = 'us') {
+    super('appstore', 'https://itunes.apple.com');
+    this.country = country;
+  }
+
+  async collect(config: CollectorConfig): Promise<DesignItem[]> {
+    const limit = config.limit || 20;
+
+    return this.paginate({
+      urls: this.buildSearchTerms(config).map(term => this.buildSearchUrl(term, limit)),
+      limit,
+      maxPages: config.maxPages,
+      parsePage: (body) => ({ items: this.parseSearchResponse(JSON.parse(body), config) }),
+      nextPage: this.offsetPager(),
+    });
+  }
+
+  async search(query: string, config?: Partial<CollectorConfig>): Promise<DesignItem[]> {
+    const limit = config?.limit || 20;
+    const searchConfig = { ...config, searchQuery: query };
+
+    return this.paginate({
+      urls: [this.buildSearchUrl(query, limit)],
+      limit,
+      maxPages: config?.maxPages,
+      parsePage: (body) => ({ items: this.parseSearchResponse(JSON.parse(body), searchConfig) }),
+      nextPage: this.offsetPager(),
+    });
+  }
+
+  /**
+   * Lookup results already carry full-size screenshots and the description
+   */
+  async enrich(item: DesignItem): Promise<DesignItem> {
+    return item;
+  }
+
+  /**
+   * Look up specific apps by their App Store track IDs
+   */
+  async lookup(ids: Array<string | number>, config?: Partial<CollectorConfig>): Promise<DesignItem[]> {
+    if (!ids.length) return [];
+
+    try {
+      const url = `${this.baseUrl}/lookup?id=${ids.join(',')}&entity=software&country=${this.country}`;
+      const response = await this.fetchWithRetry(url);
+      const json = await response.json() as ITunesSearchResponse;
+      return this.parseSearchResponse(json, config);
+    } catch (error) {
+      console.error(`Error looking up App Store apps ${ids.join(', ')}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Convert an iTunes Search/Lookup response into design items.
+   * Public so recorded JSON responses can be parsed without network access.
+   */
+  parseSearchResponse(json: ITunesSearchResponse, config?: Partial<CollectorConfig>): DesignItem[] {
+    const items: DesignItem[] = [];
+
+    for (const result of json.results || []) {
+      if (result.kind && result.kind !== 'software') continue;
+      if (!result.trackViewUrl || !result.trackName) continue;
+
+      const item = this.parseApp(result, config);
+      if (item) {
+        items.push(item);
+      }
+    }
+
+    return items;
+  }
+
+  private buildSearchUrl(term: string, limit: number): string {
+    const params = new URLSearchParams({
+      term,
+      entity: 'software',
+      media: 'software',
+      country: this.country,
+      limit: String(Math.min(200, Math.max(limit, 10))),
+      offset: '0',
+    });
+    return `${this.baseUrl}/search?${params.toString()}`;
+  }
+
+  /**
+   * The Search API pages with offset + limit. Paging a term stops at the first
+   * page that brings no track ID not already seen for that term.
+   */
+  private offsetPager(): (state: PageState, result: PageResult) => string | null {
+    const seen = new Set<number>();
+
+    return (state, result) => {
+      if (state.page === 1) seen.clear();
+      const trackIds = result.items.map(item => item.metadata?.trackId as number);
+      const hasNew = trackIds.some(id => !seen.has(id));
+      trackIds.forEach(id => seen.add(id));
+      if (!hasNew) return null;
+
+      const pageSize = parseInt(new URL(state.url).searchParams.get('limit') || '50', 10);
+      return this.withQueryParam(state.url, 'offset', String(state.page * pageSize));
+    };
+  }
+
+  private buildSearchTerms(config: CollectorConfig): string[] {
+    const terms: string[] = [];
+
+    if (config.searchQuery) {
+      terms.push(config.searchQuery);
+    }
+
+    if (config.categories?.length) {
+      for (const category of config.categories) {
+        terms.push(this.categoryToTerm(category));
+      }
+    }
+
+    // Default: broad, design-heavy app categories
+    if (terms.length === 0) {
+      terms.push('design', 'productivity', 'finance');
+    }
+
+    return [...new Set(terms)];
+  }
+
+  private categoryToTerm(category: DesignCategory): string {
+    const mapping: Record<DesignCategory, string> = {
+      'web': 'browser',
+      'mobile-ios': 'design',
+      'mobile-android': 'design',
+      'dashboard': 'analytics dashboard',
+      'landing-page': 'website builder',
+      'e-commerce': 'shopping',
+      'saas': 'productivity',
+      'portfolio': 'portfolio',
+      'social': 'social network',
+      'fintech': 'banking',
+      'healthcare': 'health',
+      'education': 'learning',
+    };
+    return mapping[category] || category;
+  }
+
+  private parseApp(app: ITunesApp, config?: Partial<CollectorConfig>): DesignItem | null {
+    try {
+      const iphoneScreens = app.screenshotUrls || [];
+      const ipadScreens = app.ipadScreenshotUrls || [];
+      const imageUrls = [...iphoneScreens, ...ipadScreens];
+      const thumbnailUrl = app.artworkUrl512 || app.artworkUrl100 || iphoneScreens[0];
+
+      const genres = app.genres?.length ? app.genres : (app.primaryGenreName ? [app.primaryGenreName] : []);
+      const description = (app.description || '').trim();
+
+      return {
+        id: this.generateId(),
+        title: app.trackName,
+        description: description.split('\n')[0].slice(0, 300),
+        source: 'appstore',
+        sourceUrl: app.trackViewUrl.split('?')[0],
+        imageUrls: imageUrls.length ? imageUrls : (thumbnailUrl ? [thumbnailUrl] : []),
+        thumbnailUrl,
+        designer: app.sellerName || app.artistName,
+        designerUrl: app.artistViewUrl?.split('?')[0],
+        category: this.genreToCategory(app.primaryGenreName, genres, config?.categories),
+        styles: this.inferStyles(`${app.trackName} ${description}`),
+        colors: [],
+        tags: [
+          'ios',
+          ...genres.map(g => g.toLowerCase()),
+          ...(config?.searchQuery ? [config.searchQuery] : []),
+        ],
+        likes: app.userRatingCount,
+        collectedAt: new Date(),
+        metadata: {
+          platform: 'ios',
+          trackId: app.trackId,
+          bundleId: app.bundleId,
+          primaryGenre: app.primaryGenreName,
+          genres,
+          averageUserRating: app.averageUserRating,
+          userRatingCount: app.userRatingCount,
+          iphoneScreenshots: iphoneScreens.length,
+          ipadScreenshots: ipadScreens.length,
+          releaseDate: app.releaseDate,
+          currentVersionReleaseDate: app.currentVersionReleaseDate,
+        },
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  private genreToCategory(
+    primaryGenre: string | undefined,
+    genres: string[],
+    preferred?: DesignCategory[]
+  ): DesignCategory {
+    if (preferred?.length) return preferred[0];
+
+    const mapping: Record<string, DesignCategory> = {
+      'finance': 'fintech',
+      'medical': 'healthcare',
+      'health & fitness': 'healthcare',
+      'education': 'education',
+      'reference': 'education',
+      'social networking': 'social',
+      'photo & video': 'social',
+      'shopping': 'e-commerce',
+      'food & drink': 'e-commerce',
+      'business': 'saas',
+      'productivity': 'saas',
+      'developer tools': 'saas',
+    };
+
+    for (const genre of [primaryGenre, ...genres]) {
+      const category = genre ? mapping[genre.toLowerCase()] : undefined;
+      if (category) return category;
+    }
+
+    return 'mobile-ios';
+  }
+
+  private inferStyles(text: string): DesignStyle[] {
+    const styles: DesignStyle[] = [];
+    const textLower = text.toLowerCase();
+
+    if (textLower.includes('minimal') || textLower.includes('clean') || textLower.includes('simple')) {
+      styles.push('minimalist');
+    }
+    if (textLower.includes('dark mode') || textLower.includes('dark theme')) styles.push('dark-mode');
+    if (textLower.includes('widget')) styles.push('bento');
+    if (textLower.includes('3d') || textLower.includes('augmented reality')) styles.push('3d');
+    if (textLower.includes('illustrat')) styles.push('illustration');
+
+    return styles.length > 0 ? styles : ['minimalist'];
+  }
+}
+
+export interface ITunesApp {
+  kind?: string;
+  trackId: number;
+  trackName: string;
+  trackViewUrl: string;
+  bundleId?: string;
+  artistName?: string;
+  artistViewUrl?: string;
+  sellerName?: string;
+  description?: string;
+  primaryGenreName?: string;
+  genres?: string[];
+  screenshotUrls?: string[];
+  ipadScreenshotUrls?: string[];
+  artworkUrl100?: string;
+  artworkUrl512?: string;
+  averageUserRating?: number;
+  userRatingCount?: number;
+  releaseDate?: string;
+  currentVersionReleaseDate?: string;
+}
+
+export interface ITunesSearchResponse {
+  resultCount: number;
+  results: ITunesApp[];
+}
@@ -1,8 +1,91 @@
-import type { DesignItem, DesignSource, CollectorConfig } from '../types/index.js';
+import * as cheerio from 'cheerio';
+import type { DesignItem, DesignDetails, DesignSource, DesignStyle, CollectorConfig, SourceRunMetrics } from '../types/index.js';
+import {
+  ApiError,
+  canonicalUrl,
+  getApiClient,
+  getCassette,
+  getHttpCache,
+  getRateLimiter,
+  getRobotsCache,
+  RobotsDisallowedError,
+  USER_AGENT,
+  type ApiClient,
+  type ApiService,
+} from '../http/index.js';
+import {
+  extractStructuredData,
+  candidatesFromJsonLd,
+  candidatesFromHydration,
+  candidateFromMeta,
+  type StructuredCandidate,
+} from './structured-data.js';
+import {
+  getScrapeSpecs,
+  runScrapeSpec,
+  extractPageFields,
+  parseSpecNumber,
+  type ScrapeSpec,
+  type SpecFields,
+  type SpecRecord,
+  type SpecRunStats,
+} from './scrape-spec.js';
+import { RunMetricsRecorder } from './run-metrics.js';
+import type { CollectorProgress } from './progress.js';
+
+export const DEFAULT_MAX_PAGES = 10;
+
+export interface PageState {
+  url: string;
+  page: number;
+  cursor?: string;
+}
+
+export interface PageResult {
+  items: DesignItem[];
+  // Cursor for the next page (cursor-based sources); null/undefined means no more pages
+  cursor?: string | null;
+}
+
+export interface PaginationOptions {
+  // Start URLs, paginated one after another until the limit is met
+  urls: string[];
+  limit: number;
+  parsePage: (body: string, state: PageState) => PageResult;
+  // Build the next page URL; defaults to incrementing the `pageParam` query parameter
+  nextPage?: (state: PageState, result: PageResult) => string | null;
+  pageParam?: string;
+  maxPages?: number;
+  // Extra stop condition, checked after each page
+  shouldStop?: (items: DesignItem[], result: PageResult) => boolean;
+}
+
+export interface RunOptions {
+  // Receives a `page` event for every page the run fetches
+  progress?: CollectorProgress;
+  // Aborting stops the run at its next request or backoff; collect/search then reject
+  signal?: AbortSignal;
+  // Canonical sourceUrls already stored; paginate() skips these items
+  knownUrls?: Set<string>;
+  // Listing is newest first, so paginate() stops at the first page with a known item
+  stopAtKnown?: boolean;
+}
+
+// A followed designer's profile page on this collector's source
+export interface ProfileTarget {
+  url: string;
+  // Attributed to items whose cards do not name the designer (profile pages rarely do)
+  designer?: string;
+}
 
 export abstract class BaseCollector {
   protected source: DesignSource;
   protected baseUrl: string;
+  // Set between startRunMetrics() and finishRunMetrics()
+  protected metrics: RunMetricsRecorder | null = null;
+  protected signal?: AbortSignal;
+  protected knownUrls?: Set<string>;
+  protected stopAtKnown = false;
 
   constructor(source: DesignSource, baseUrl: string) {
     this.source = source;
@@ -13,6 +96,451 @@ export abstract class BaseCollector {
 
   abstract search(query: string, config?: Partial<CollectorConfig>): Promise<DesignItem[]>;
 
+  /**
+   * Latest work from designer profile pages. Each profile gets an even share of
+   * the limit; a profile that fails is logged and skipped.
+   */
+  async collectProfiles(profiles: ProfileTarget[], config: CollectorConfig): Promise<DesignItem[]> {
+    const perProfile = Math.ceil((config.limit || 20) / Math.max(1, profiles.length));
+    const items: DesignItem[] = [];
+
+    for (const profile of profiles) {
+      try {
+        for (const item of await this.collectProfile(profile.url, { ...config, limit: perProfile })) {
+          item.designer ||= profile.designer;
+          item.designerUrl ||= profile.url;
+          items.push(item);
+        }
+      } catch (error) {
+        if (this.isCancelled()) throw error;
+        this.metrics?.recordError(error);
+        if (!(error instanceof RobotsDisallowedError)) {
+          console.error(`Error collecting designer profile ${profile.url}:`, error);
+        }
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Work listed on one profile page, newest first. Only collectors of sources
+   * with profile pages (see designer-profiles.ts) implement this.
+   */
+  protected async collectProfile(_profileUrl: string, _config: CollectorConfig): Promise<DesignItem[]> {
+    throw new Error(`Designer profiles are not supported for ${this.source}`);
+  }
+
+  /**
+   * Start recording pages, HTTP statuses and selector matches for a collect/search call
+   */
+  startRunMetrics(options: RunOptions = {}): void {
+    this.metrics = new RunMetricsRecorder(this.source, options.progress);
+    this.signal = options.signal;
+    this.knownUrls = options.knownUrls;
+    this.stopAtKnown = options.stopAtKnown ?? false;
+  }
+
+  /**
+   * Stop recording and return the metrics of the current run
+   */
+  finishRunMetrics(itemsReturned: number, error?: unknown): SourceRunMetrics {
+    const recorder = this.metrics || new RunMetricsRecorder(this.source);
+    if (error) recorder.recordError(error);
+    this.metrics = null;
+    this.signal = undefined;
+    this.knownUrls = undefined;
+    this.stopAtKnown = false;
+    return recorder.finish(itemsReturned);
+  }
+
+  /**
+   * Visit the item's detail page and fill in what listing pages do not show
+   * (full-size images, tags, description, designer, publish date). Updates the item in place.
+   */
+  async enrich(item: DesignItem): Promise<DesignItem> {
+    try {
+      const response = await this.fetchWithRetry(item.sourceUrl);
+      const html = await response.text();
+      const spec = await getScrapeSpecs().find(this.source);
+      this.applyDetails(item, this.parseDetailPage(html, item, spec));
+    } catch (error) {
+      // robots.txt skips are already logged by fetchWithRetry
+      if (!(error instanceof RobotsDisallowedError)) {
+        console.error(`Error enriching ${item.sourceUrl}:`, error);
+      }
+    }
+    return item;
+  }
+
+  /**
+   * Parse a detail page: the page's meta tags, overridden by the scrape
+   * spec's `detail` fields when the source has them
+   */
+  protected parseDetailPage(html: string, _item: DesignItem, spec?: ScrapeSpec | null): DesignDetails {
+    const $ = cheerio.load(html);
+    const details = this.parseDetailMeta($);
+    if (!spec?.detail) return details;
+
+    const fields = extractPageFields($, spec.detail.fields, this.baseUrl);
+    const first = (name: string) => fields[name]?.[0];
+
+    return {
+      title: first('title') || details.title,
+      description: first('description') || details.description,
+      imageUrls: fields.imageUrls?.length ? fields.imageUrls : details.imageUrls,
+      tags: fields.tags?.length ? fields.tags : details.tags,
+      colors: fields.colors,
+      designer: first('designer') || details.designer,
+      designerUrl: first('designerUrl') || details.designerUrl,
+      publishedAt: this.parseDate(first('publishedAt')) || details.publishedAt,
+      siteUrl: first('siteUrl'),
+    };
+  }
+
+  /**
+   * Details available from meta tags and JSON-LD on most detail pages
+   */
+  protected parseDetailMeta($: cheerio.CheerioAPI): DesignDetails {
+    const data = extractStructuredData($.html());
+    const page = candidateFromMeta(data.meta);
+    const ld = candidatesFromJsonLd(data.jsonLd)[0];
+
+    const keywords = $('meta[name="keywords"]').attr('content');
+    const published = page?.publishedAt || ld?.publishedAt || $('time[datetime]').first().attr('datetime');
+
+    return {
+      title: page?.title || ld?.title,
+      description: page?.description || ld?.description || $('meta[name="description"]').attr('content')?.trim(),
+      imageUrls: [...new Set([...(page?.imageUrls || data.meta['og:image'] || []), ...(ld?.imageUrls || [])])],
+      tags: ld?.tags?.length ? ld.tags : keywords?.split(',').map(k => k.trim()).filter(Boolean),
+      designer: ld?.designer,
+      designerUrl: ld?.designerUrl,
+      publishedAt: this.parseDate(published),
+    };
+  }
+
+  /**
+   * Merge enrichment details into an item; detail-page images take precedence
+   */
+  protected applyDetails(item: DesignItem, details: DesignDetails): void {
+    if (details.imageUrls?.length) {
+      item.imageUrls = [...new Set([...details.imageUrls, ...item.imageUrls])];
+      item.thumbnailUrl = item.thumbnailUrl || details.imageUrls[0];
+    }
+    if (details.description) {
+      item.description = details.description;
+    }
+    if (details.title && (!item.title || item.title === 'Untitled')) {
+      item.title = details.title;
+    }
+    if (details.tags?.length) {
+      item.tags = [...new Set([...item.tags, ...details.tags.map(t => t.toLowerCase())])];
+    }
+    if (details.colors?.length) {
+      item.colors = [...new Set([...details.colors, ...item.colors])];
+    }
+    item.designer = details.designer || item.designer;
+    item.designerUrl = details.designerUrl || item.designerUrl;
+    item.publishedAt = item.publishedAt || details.publishedAt;
+    item.metadata = {
+      ...item.metadata,
+      ...(details.siteUrl ? { siteUrl: details.siteUrl } : {}),
+      enrichedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Load this source's scrape spec (built-in, or the user's override in the data dir)
+   */
+  protected loadScrapeSpec(): Promise<ScrapeSpec> {
+    return getScrapeSpecs().get(this.source);
+  }
+
+  /**
+   * Generic scrape-spec interpreter: turns every element matched by the spec's
+   * lists into a DesignItem, falling back to structured data when nothing matches.
+   */
+  protected parseWithSpec(html: string, spec: ScrapeSpec, config?: Partial<CollectorConfig>): DesignItem[] {
+    const $ = cheerio.load(html);
+    const items: DesignItem[] = [];
+    const stats: SpecRunStats = { matches: {}, dropped: 0 };
+
+    for (const record of runScrapeSpec($, spec, this.baseUrl, stats)) {
+      try {
+        const item = this.refineSpecItem(this.specRecordToItem(record, spec, config), record, config);
+        if (item) items.push(item);
+        else stats.dropped++;
+      } catch {
+        // Skip invalid items
+        stats.dropped++;
+      }
+    }
+
+    for (const [selector, matched] of Object.entries(stats.matches)) {
+      this.metrics?.recordSelector(selector, matched);
+    }
+    this.metrics?.recordDropped(stats.dropped);
+
+    // Selectors matched nothing (markup changed): fall back to structured data
+    if (items.length === 0) {
+      this.metrics?.recordFallback();
+      return this.extractStructuredItems(html, config);
+    }
+
+    return items;
+  }
+
+  /**
+   * Hook for source-specific logic the spec cannot express (scores, taxonomies).
+   * Return null to drop the item.
+   */
+  protected refineSpecItem(
+    item: DesignItem,
+    _record: SpecRecord,
+    _config?: Partial<CollectorConfig>
+  ): DesignItem | null {
+    return item;
+  }
+
+  private specRecordToItem(record: SpecRecord, spec: ScrapeSpec, config?: Partial<CollectorConfig>): DesignItem {
+    const fields: SpecFields = { ...record.fields };
+    const first = (name: string) => fields[name]?.[0];
+    const fill = (template: string) => template.replace(/\{(\w+)\}/g, (_, name: string) => first(name) || '');
+
+    for (const [name, template] of Object.entries(spec.defaults)) {
+      if (!fields[name]?.length) fields[name] = [fill(template)];
+    }
+    for (const [name, template] of Object.entries({ ...spec.templates, ...record.list.templates })) {
+      fields[name] = [fill(template)];
+    }
+
+    const textOf = (names: string[]) => names.map(name => (fields[name] || []).join(' ')).join(' ').toLowerCase();
+
+    const categoryRule = spec.category?.rules.find(rule =>
+      rule.keywords.some(kw => textOf(spec.category!.from).includes(kw)));
+    const category = config?.categories?.[0] || categoryRule?.value || spec.category?.default || 'web';
+
+    let styles: DesignStyle[];
+    if (spec.styles) {
+      const styleText = textOf(spec.styles.from);
+      styles = [...new Set(spec.styles.rules
+        .filter(rule => rule.keywords.some(kw => styleText.includes(kw)))
+        .map(rule => rule.value))];
+      if (!styles.length) styles = spec.styles.default;
+    } else {
+      styles = this.inferStylesFromKeywords(textOf(['title', 'description']));
+    }
+
+    const wordTags: string[] = [];
+    if (spec.wordTags) {
+      const { from, stopWords, minLength, max } = spec.wordTags;
+      const words = textOf(from).split(/[\s\-_,()[\]|:]+/);
+      wordTags.push(...[...new Set(words.filter(w => w.length >= minLength && !stopWords.includes(w)))].slice(0, max));
+    }
+
+    const metadata: Record<string, unknown> = { ...spec.metadata, ...record.list.metadata };
+    for (const name of spec.metadataFields) {
+      if (first(name) !== undefined) metadata[name] = first(name);
+    }
+
+    const imageUrls = fields.imageUrls || [];
+
+    return {
+      id: this.generateId(),
+      title: first('title') || 'Untitled',
+      description: first('description') || '',
+      source: this.source,
+      sourceUrl: first('sourceUrl') || '',
+      imageUrls,
+      thumbnailUrl: first('thumbnailUrl') || imageUrls[0],
+      designer: first('designer'),
+      designerUrl: first('designerUrl'),
+      category,
+      styles,
+      colors: fields.colors || [],
+      tags: [...new Set([...(fields.tags || []), ...wordTags, ...(config?.searchQuery ? [config.searchQuery] : [])])],
+      likes: parseSpecNumber(first('likes')),
+      views: parseSpecNumber(first('views')),
+      collectedAt: new Date(),
+      metadata: Object.keys(metadata).length ? metadata : undefined,
+    };
+  }
+
+  /**
+   * Fallback for when a collector's selectors match nothing: build items from
+   * JSON-LD, hydration blobs (__NEXT_DATA__, __PWS_DATA__) and, for single-item
+   * pages, the OpenGraph/Twitter card. Only links back to this source are kept.
+   */
+  protected extractStructuredItems(html: string, config?: Partial<CollectorConfig>): DesignItem[] {
+    const data = extractStructuredData(html);
+    const candidates = candidatesFromJsonLd(data.jsonLd);
+
+    for (const blob of Object.values(data.hydration)) {
+      candidates.push(...candidatesFromHydration(blob, node => this.mapHydrationNode(node)));
+    }
+
+    // A listing page's card describes the listing itself, so only trust non-website cards
+    if (!candidates.length && data.meta['og:type']?.[0] !== 'website') {
+      const page = candidateFromMeta(data.meta);
+      if (page) candidates.push(page);
+    }
+
+    const items: DesignItem[] = [];
+    const seen = new Set<string>();
+
+    for (const candidate of candidates) {
+      const sourceUrl = this.absoluteUrl(candidate.url);
+      if (seen.has(sourceUrl) || !this.isSameSite(sourceUrl)) continue;
+      seen.add(sourceUrl);
+
+      const imageUrls = candidate.imageUrls.map(url => url.startsWith('//') ? `https:${url}` : this.absoluteUrl(url));
+      const text = `${candidate.title} ${candidate.description || ''}`;
+
+      items.push({
+        id: this.generateId(),
+        title: candidate.title,
+        description: candidate.description || '',
+        source: this.source,
+        sourceUrl,
+        imageUrls,
+        thumbnailUrl: imageUrls[0],
+        designer: candidate.designer,
+        designerUrl: candidate.designerUrl ? this.absoluteUrl(candidate.designerUrl) : undefined,
+        category: config?.categories?.[0] || 'web',
+        styles: this.inferStylesFromKeywords(text),
+        colors: [],
+        tags: [...(candidate.tags || []), ...(config?.searchQuery ? [config.searchQuery] : [])],
+        likes: candidate.likes,
+        publishedAt: this.parseDate(candidate.publishedAt),
+        collectedAt: new Date(),
+        metadata: {
+          platform: this.source,
+          extractedFrom: 'structured-data',
+        },
+      });
+    }
+
+    return items;
+  }
+
+  /**
+   * Recognise source-specific objects in hydration blobs that the generic
+   * title/url/image heuristic misses. Returns null to use the heuristic.
+   */
+  protected mapHydrationNode(_node: Record<string, unknown>): StructuredCandidate | null {
+    return null;
+  }
+
+  protected inferStylesFromKeywords(text: string): DesignStyle[] {
+    const lowerText = text.toLowerCase();
+    const styleKeywords: Record<DesignStyle, string[]> = {
+      'minimalist': ['minimal', 'clean', 'simple'],
+      'brutalist': ['brutalist', 'brutal'],
+      'glassmorphism': ['glass', 'frosted'],
+      'neumorphism': ['neumorphism', 'soft ui'],
+      'bento': ['bento'],
+      'dark-mode': ['dark'],
+      'gradient': ['gradient'],
+      '3d': ['3d', 'webgl'],
+      'illustration': ['illustration'],
+      'typography-focused': ['typography', 'editorial'],
+      'organic': ['organic'],
+      'geometric': ['geometric'],
+    };
+
+    const styles = (Object.keys(styleKeywords) as DesignStyle[])
+      .filter(style => styleKeywords[style].some(kw => lowerText.includes(kw)));
+    return styles.length ? styles : ['minimalist'];
+  }
+
+  protected parseDate(value?: string): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  /**
+   * Pick the widest candidate from an img srcset
+   */
+  protected largestFromSrcset(srcset?: string): string | undefined {
+    if (!srcset) return undefined;
+    const candidates = srcset.split(',').map(entry => entry.trim().split(/\s+/)[0]).filter(Boolean);
+    return candidates[candidates.length - 1];
+  }
+
+  protected absoluteUrl(href: string): string {
+    return href.startsWith('http') ? href : `${this.baseUrl}${href.startsWith('/') ? '' : '/'}${href}`;
+  }
+
+  private isSameSite(url: string): boolean {
+    try {
+      const site = new URL(this.baseUrl).hostname.replace(/^www\./, '');
+      const host = new URL(url).hostname;
+      return host === site || host.endsWith(`.${site}`);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Use the official API when credentials for it are configured, falling back to
+   * HTML scraping when they are not or the API call fails
+   */
+  protected async withApiFallback(
+    service: ApiService,
+    viaApi: (client: ApiClient) => Promise<DesignItem[]>,
+    viaHtml: () => Promise<DesignItem[]>
+  ): Promise<DesignItem[]> {
+    const client = getApiClient(service);
+    if (client) {
+      try {
+        return await viaApi(client);
+      } catch (error) {
+        if (this.isCancelled()) throw error;
+        console.error(`Error using the ${service} API, falling back to HTML:`, error);
+      }
+    }
+    return viaHtml();
+  }
+
+  /**
+   * GET an API resource, recording the response status in the run metrics
+   */
+  protected async apiGet<T>(
+    client: ApiClient,
+    path: string,
+    params?: Record<string, string | number | undefined>
+  ): Promise<T> {
+    this.signal?.throwIfAborted();
+    try {
+      const data = await client.get<T>(path, params, this.signal);
+      this.metrics?.recordStatus(200);
+      return data;
+    } catch (error) {
+      if (error instanceof ApiError) this.metrics?.recordStatus(error.status);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether the current run was aborted; loops that catch per-page errors rethrow instead of moving on
+   */
+  protected isCancelled(): boolean {
+    return this.signal?.aborted ?? false;
+  }
+
+  /**
+   * Whether the item is already in the store (only known during incremental runs)
+   */
+  protected isKnown(item: DesignItem): boolean {
+    return this.knownUrls?.has(canonicalUrl(item.sourceUrl)) ?? false;
+  }
+
+  protected stripHtml(html?: string | null): string {
+    return html ? cheerio.load(html).text().replace(/\s+/g, ' ').trim() : '';
+  }
+
   protected generateId(): string {
     return `${this.source}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -22,15 +550,50 @@ export abstract class BaseCollector {
     options?: RequestInit,
     retries = 3
   ): Promise<Response> {
+    const signal = options?.signal ?? this.signal;
+    signal?.throwIfAborted();
+
+    // Replayed responses never touch the network, so robots.txt and rate limits do not apply
+    const live = getCassette().getMode() !== 'replay';
+    let crawlDelay: number | undefined;
+
+    if (live) {
+      const robots = await getRobotsCache().get(url);
+      if (!robots.isAllowed(url, USER_AGENT)) {
+        this.metrics?.recordStatus('robots');
+        console.warn(`Skipping ${url}: disallowed by robots.txt`);
+        throw new RobotsDisallowedError(url);
+      }
+      crawlDelay = robots.getCrawlDelay(USER_AGENT);
+    }
+
+    // Network requests are rate limited and go through the record/replay cassette
+    // (a plain fetch when it is off)
+    const networkFetch = async (requestUrl: string, init?: RequestInit): Promise<Response> => {
+      if (live) {
+        await getRateLimiter().acquire(requestUrl, this.source, crawlDelay, signal);
+      }
+      return getCassette().fetch(requestUrl, init);
+    };
+
+    // Recording and replaying bypass the HTTP cache so cassettes see every request
+    const useCache = getCassette().getMode() === 'off';
+
     for (let i = 0; i < retries; i++) {
+      signal?.throwIfAborted();
       try {
-        const response = await fetch(url, {
+        const init: RequestInit = {
           ...options,
+          signal,
           headers: {
-            'User-Agent': 'DesignScoutAgent/1.0',
+            'User-Agent': USER_AGENT,
             ...options?.headers,
           },
-        });
+        };
+        const response = useCache
+          ? await getHttpCache().fetch(url, init, networkFetch)
+          : await networkFetch(url, init);
+        this.metrics?.recordStatus(response.status);
         if (response.ok) return response;
         if (response.status === 429) {
           // Rate limited, wait and retry
@@ -39,15 +602,95 @@ export abstract class BaseCollector {
         }
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       } catch (error) {
-        if (i === retries - 1) throw error;
+        if (i === retries - 1 || signal?.aborted) throw error;
         await this.delay(Math.pow(2, i) * 1000);
       }
     }
     throw new Error('Max retries exceeded');
   }
 
+  /**
+   * Fetch pages from each start URL until the limit is met, a page yields no new
+   * items, the next page cannot be built or the max-pages guard is reached.
+   * Items are de-duplicated by sourceUrl.
+   */
+  protected async paginate(options: PaginationOptions): Promise<DesignItem[]> {
+    const items: DesignItem[] = [];
+    const seen = new Set<string>();
+    const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+    const nextPage = options.nextPage ??
+      ((state: PageState) => this.withQueryParam(state.url, options.pageParam || 'page', String(state.page + 1)));
+
+    for (const startUrl of options.urls) {
+      let url: string | null = startUrl;
+      let cursor: string | undefined;
+
+      for (let page = 1; url && page <= maxPages && items.length < options.limit; page++) {
+        let result: PageResult;
+        try {
+          const response = await this.fetchWithRetry(url);
+          const body = await response.text();
+          result = options.parsePage(body, { url, page, cursor });
+        } catch (error) {
+          if (this.isCancelled()) throw error;
+          this.metrics?.recordPageFailure(error);
+          // robots.txt skips are already logged by fetchWithRetry
+          if (!(error instanceof RobotsDisallowedError)) {
+            console.error(`Error collecting from ${url}:`, error);
+          }
+          break;
+        }
+        this.metrics?.recordPage(result.items.length, url);
+
+        const fresh = result.items.filter(item => !seen.has(item.sourceUrl));
+        let reachedKnown = false;
+        for (const item of fresh) {
+          seen.add(item.sourceUrl);
+          if (this.isKnown(item)) {
+            reachedKnown = true;
+            this.metrics?.recordKnown(1);
+          } else {
+            items.push(item);
+          }
+        }
+
+        // No new items: last page reached, or the site ignores the page parameter
+        if (fresh.length === 0) break;
+        // Everything further down a newest-first listing was collected by an earlier run
+        if (reachedKnown && this.stopAtKnown) break;
+        if (options.shouldStop?.(items, result)) break;
+
+        cursor = result.cursor ?? undefined;
+        url = nextPage({ url, page, cursor }, result);
+      }
+
+      if (items.length >= options.limit) break;
+    }
+
+    return items.slice(0, options.limit);
+  }
+
+  protected withQueryParam(url: string, key: string, value: string): string {
+    const parsed = new URL(url);
+    parsed.searchParams.set(key, value);
+    return parsed.toString();
+  }
+
   protected delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    // Replayed responses never touch the network, so backoff is moot
+    if (getCassette().getMode() === 'replay') return Promise.resolve();
+
+    // Cut short when the run is aborted; the caller's next request then throws
+    const signal = this.signal;
+    return new Promise(resolve => {
+      const finish = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', finish);
+        resolve();
+      };
+      const timer = setTimeout(finish, ms);
+      signal?.addEventListener('abort', finish, { once: true });
+    });
   }
 
   protected extractColors(html: string): string[] {
@@ -1,6 +1,22 @@
-import * as cheerio from 'cheerio';
-import type { DesignItem, CollectorConfig, DesignCategory, DesignStyle } from '../types/index.js';
-import { BaseCollector } from './base-collector.js';
+import type { DesignItem, CollectorConfig, DesignCategory } from '../types/index.js';
+import { getApiClient, type ApiClient } from '../http/index.js';
+import { BaseCollector, DEFAULT_MAX_PAGES } from './base-collector.js';
+
+// Behance API v2 project, as returned by /projects and /projects/:id
+export interface BehanceApiProject {
+  id: number;
+  name: string;
+  url: string;
+  published_on?: number;
+  covers?: Record<string, string>;
+  owners?: Array<{ display_name?: string; username?: string; url?: string }>;
+  stats?: { appreciations?: number; views?: number; comments?: number };
+  fields?: string[];
+  tags?: string[];
+  description?: string;
+  modules?: Array<{ type: string; src?: string; sizes?: Record<string, string> }>;
+  colors?: Array<{ r: number; g: number; b: number }>;
+}
 
 export class BehanceCollector extends BaseCollector {
   constructor() {
@@ -8,49 +24,171 @@ export class BehanceCollector extends BaseCollector {
   }
 
   async collect(config: CollectorConfig): Promise<DesignItem[]> {
-    const items: DesignItem[] = [];
-    const limit = config.limit || 10;
+    const sort = config.sortBy === 'recent' ? 'published_date' : 'appreciations';
+    const fields = config.categories?.length
+      ? [...new Set(config.categories.map(c => this.categoryToField(c)).filter((f): f is string => Boolean(f)))]
+      : ['ui%2Fux', 'web%20design'];
+
+    return this.withApiFallback(
+      'behance',
+      (client) => this.collectFromApi(client, fields.map(field => ({ field: decodeURIComponent(field), sort })), config),
+      async () => {
+        // Behance gallery pages
+        const spec = await this.loadScrapeSpec();
+
+        return this.paginate({
+          urls: this.buildUrls(config),
+          limit: config.limit || 10,
+          maxPages: config.maxPages,
+          parsePage: (html) => ({ items: this.parseWithSpec(html, spec, config) }),
+        });
+      }
+    );
+  }
 
-    try {
-      // Behance gallery pages
-      const urls = this.buildUrls(config);
-
-      for (const url of urls) {
-        if (items.length >= limit) break;
-
-        try {
-          const response = await this.fetchWithRetry(url);
-          const html = await response.text();
-          const pageItems = this.parseGalleryPage(html, config);
-          items.push(...pageItems);
-        } catch (error) {
-          console.error(`Error fetching ${url}:`, error);
-        }
+  async search(query: string, config?: Partial<CollectorConfig>): Promise<DesignItem[]> {
+    const searchConfig = { ...config, searchQuery: query };
+
+    return this.withApiFallback(
+      'behance',
+      (client) => this.collectFromApi(client, [{ q: query }], searchConfig),
+      async () => {
+        const searchUrl = `${this.baseUrl}/search/projects?search=${encodeURIComponent(query)}`;
+        const spec = await this.loadScrapeSpec();
+
+        return this.paginate({
+          urls: [searchUrl],
+          limit: config?.limit || 10,
+          maxPages: config?.maxPages,
+          parsePage: (html) => ({ items: this.parseWithSpec(html, spec, searchConfig) }),
+        });
       }
-    } catch (error) {
-      console.error('Error collecting from Behance:', error);
-    }
+    );
+  }
 
-    return items.slice(0, limit);
+  /**
+   * A user's projects, newest first: /users/:user/projects with an API key, the profile page otherwise
+   */
+  protected async collectProfile(profileUrl: string, config: CollectorConfig): Promise<DesignItem[]> {
+    const user = new URL(profileUrl).pathname.split('/')[1];
+
+    return this.withApiFallback(
+      'behance',
+      (client) => this.collectFromApi(client, [{ sort: 'published_date' }], config, `users/${user}/projects`),
+      async () => {
+        const spec = await this.loadScrapeSpec();
+
+        return this.paginate({
+          urls: [profileUrl],
+          limit: config.limit || 10,
+          maxPages: config.maxPages,
+          parsePage: (html) => ({ items: this.parseWithSpec(html, spec, config) }),
+        });
+      }
+    );
   }
 
-  async search(query: string, config?: Partial<CollectorConfig>): Promise<DesignItem[]> {
-    const items: DesignItem[] = [];
-    const limit = config?.limit || 10;
+  /**
+   * With an API key, project details come from /projects/:id instead of the HTML page
+   */
+  async enrich(item: DesignItem): Promise<DesignItem> {
+    const client = getApiClient('behance');
+    const projectId = item.sourceUrl.match(/\/gallery\/(\d+)/)?.[1];
+    if (!client || !projectId) return super.enrich(item);
 
     try {
-      const searchUrl = `${this.baseUrl}/search/projects?search=${encodeURIComponent(query)}`;
-      const response = await this.fetchWithRetry(searchUrl);
-      const html = await response.text();
-      const pageItems = this.parseGalleryPage(html, config);
-      items.push(...pageItems);
+      const { project } = await this.apiGet<{ project: BehanceApiProject }>(client, `projects/${projectId}`);
+      const images = (project.modules || [])
+        .filter(module => module.type === 'image')
+        .map(module => module.sizes?.original || module.sizes?.max_1200 || module.src)
+        .filter((src): src is string => Boolean(src));
+
+      this.applyDetails(item, {
+        description: this.stripHtml(project.description) || undefined,
+        imageUrls: images,
+        tags: project.tags,
+        colors: (project.colors || []).map(({ r, g, b }) =>
+          `#${[r, g, b].map(v => v.toString(16).padStart(2, '0')).join('')}`),
+        designer: project.owners?.[0]?.display_name,
+        designerUrl: project.owners?.[0]?.url,
+        publishedAt: project.published_on ? new Date(project.published_on * 1000) : undefined,
+      });
     } catch (error) {
-      console.error('Error searching Behance:', error);
+      console.error(`Error enriching ${item.sourceUrl} from the Behance API:`, error);
+    }
+    return item;
+  }
+
+  /**
+   * Page through /projects (or another project list endpoint) for each parameter set until the limit is met.
+   * Stored projects are skipped, and a newest-first run stops at the first page that has one, as paginate() does.
+   */
+  private async collectFromApi(
+    client: ApiClient,
+    queries: Array<Record<string, string>>,
+    config?: Partial<CollectorConfig>,
+    endpoint = 'projects'
+  ): Promise<DesignItem[]> {
+    const limit = config?.limit || 10;
+    const maxPages = config?.maxPages ?? DEFAULT_MAX_PAGES;
+    const items: DesignItem[] = [];
+    const seen = new Set<string>();
+
+    for (const query of queries) {
+      for (let page = 1; page <= maxPages && items.length < limit; page++) {
+        const { projects = [] } = await this.apiGet<{ projects?: BehanceApiProject[] }>(
+          client, endpoint, { ...query, page });
+        this.metrics?.recordPage(projects.length);
+        if (projects.length === 0) break;
+
+        let reachedKnown = false;
+        for (const project of projects) {
+          if (seen.has(project.url)) continue;
+          seen.add(project.url);
+          const item = this.projectToItem(project, config);
+          if (this.isKnown(item)) {
+            reachedKnown = true;
+            this.metrics?.recordKnown(1);
+          } else {
+            items.push(item);
+          }
+        }
+        if (reachedKnown && this.stopAtKnown) break;
+      }
+      if (items.length >= limit) break;
     }
 
     return items.slice(0, limit);
   }
 
+  private projectToItem(project: BehanceApiProject, config?: Partial<CollectorConfig>): DesignItem {
+    const covers = project.covers || {};
+    const image = covers.original || covers.max_808 || covers['808'] || covers['404'];
+    const owner = project.owners?.[0];
+    const text = `${project.name} ${(project.fields || []).join(' ')}`;
+
+    return {
+      id: this.generateId(),
+      title: project.name,
+      description: owner?.display_name ? `Behance project by ${owner.display_name}` : 'Design from Behance',
+      source: 'behance',
+      sourceUrl: project.url,
+      imageUrls: image ? [image] : [],
+      thumbnailUrl: covers['404'] || image,
+      designer: owner?.display_name,
+      designerUrl: owner?.url,
+      category: config?.categories?.[0] || 'web',
+      styles: this.inferStylesFromKeywords(text),
+      colors: [],
+      tags: [...new Set([...(project.fields || []).map(f => f.toLowerCase()), ...(config?.searchQuery ? [config.searchQuery] : [])])],
+      likes: project.stats?.appreciations,
+      views: project.stats?.views,
+      publishedAt: project.published_on ? new Date(project.published_on * 1000) : undefined,
+      collectedAt: new Date(),
+      metadata: { platform: 'behance', via: 'api', projectId: project.id },
+    };
+  }
+
   private buildUrls(config: CollectorConfig): string[] {
     const urls: string[] = [];
     const sortParam = config.sortBy === 'recent' ? 'latest' : 'appreciations';
@@ -91,142 +229,4 @@ export class BehanceCollector extends BaseCollector {
     };
     return mapping[category] || null;
   }
-
-  private parseGalleryPage(html: string, config?: Partial<CollectorConfig>): DesignItem[] {
-    const $ = cheerio.load(html);
-    const items: DesignItem[] = [];
-
-    // Behance project cards
-    $('div[class*="ProjectCover"]').each((_, element) => {
-      try {
-        const $el = $(element);
-        const $link = $el.find('a[href*="/gallery/"]').first();
-        const $img = $el.find('img').first();
-        const $title = $el.find('[class*="Title"]').first();
-        const $owner = $el.find('[class*="Owner"]').first();
-        const $stats = $el.find('[class*="Stats"]').first();
-
-        const href = $link.attr('href') || '';
-        const imageUrl = $img.attr('src') || $img.attr('data-src') || '';
-        const title = $title.text().trim() || $img.attr('alt') || 'Untitled';
-        const designer = $owner.text().trim();
-
-        if (!href || !imageUrl) return;
-
-        const sourceUrl = href.startsWith('http') ? href : `${this.baseUrl}${href}`;
-
-        // Extract stats
-        const statsText = $stats.text();
-        const likesMatch = statsText.match(/(\d+(?:,\d+)*)/);
-        const likes = likesMatch ? parseInt(likesMatch[1].replace(/,/g, ''), 10) : 0;
-
-        const item: DesignItem = {
-          id: this.generateId(),
-          title,
-          description: `Behance project by ${designer}`,
-          source: 'behance',
-          sourceUrl,
-          imageUrls: [imageUrl],
-          thumbnailUrl: imageUrl,
-          designer,
-          designerUrl: this.baseUrl,
-          category: this.inferCategory(title, config?.categories),
-          styles: this.inferStyles(title, imageUrl),
-          colors: this.extractColors(html),
-          tags: this.extractTags(title),
-          likes,
-          collectedAt: new Date(),
-          metadata: {
-            platform: 'behance',
-          },
-        };
-
-        items.push(item);
-      } catch (err) {
-        // Skip invalid items
-      }
-    });
-
-    // Fallback: try alternative selectors
-    if (items.length === 0) {
-      $('a[href*="/gallery/"]').each((_, element) => {
-        try {
-          const $el = $(element);
-          const href = $el.attr('href') || '';
-          const $img = $el.find('img').first();
-          const imageUrl = $img.attr('src') || $img.attr('data-src') || '';
-          const title = $img.attr('alt') || $el.attr('title') || 'Behance Design';
-
-          if (!href || !imageUrl || items.length >= 20) return;
-
-          const sourceUrl = href.startsWith('http') ? href : `${this.baseUrl}${href}`;
-
-          const item: DesignItem = {
-            id: this.generateId(),
-            title,
-            description: `Design from Behance`,
-            source: 'behance',
-            sourceUrl,
-            imageUrls: [imageUrl],
-            thumbnailUrl: imageUrl,
-            category: this.inferCategory(title, config?.categories),
-            styles: this.inferStyles(title, imageUrl),
-            colors: this.extractColors(html),
-            tags: this.extractTags(title),
-            collectedAt: new Date(),
-          };
-
-          items.push(item);
-        } catch (err) {
-          // Skip invalid items
-        }
-      });
-    }
-
-    return items;
-  }
-
-  private inferCategory(title: string, preferred?: DesignCategory[]): DesignCategory {
-    const titleLower = title.toLowerCase();
-
-    if (preferred?.length) return preferred[0];
-
-    if (titleLower.includes('mobile') || titleLower.includes('app') || titleLower.includes('ios')) {
-      return 'mobile-ios';
-    }
-    if (titleLower.includes('android')) return 'mobile-android';
-    if (titleLower.includes('dashboard') || titleLower.includes('admin')) return 'dashboard';
-    if (titleLower.includes('landing') || titleLower.includes('hero')) return 'landing-page';
-    if (titleLower.includes('shop') || titleLower.includes('ecommerce') || titleLower.includes('store')) {
-      return 'e-commerce';
-    }
-    if (titleLower.includes('saas') || titleLower.includes('platform')) return 'saas';
-
-    return 'web';
-  }
-
-  private inferStyles(title: string, imageUrl: string): DesignStyle[] {
-    const styles: DesignStyle[] = [];
-    const combined = (title + imageUrl).toLowerCase();
-
-    if (combined.includes('minimal') || combined.includes('clean')) styles.push('minimalist');
-    if (combined.includes('dark')) styles.push('dark-mode');
-    if (combined.includes('gradient')) styles.push('gradient');
-    if (combined.includes('3d') || combined.includes('three')) styles.push('3d');
-    if (combined.includes('glass') || combined.includes('blur')) styles.push('glassmorphism');
-    if (combined.includes('neumorphism') || combined.includes('soft')) styles.push('neumorphism');
-    if (combined.includes('illustration') || combined.includes('illust')) styles.push('illustration');
-    if (combined.includes('bento')) styles.push('bento');
-
-    return styles.length > 0 ? styles : ['minimalist'];
-  }
-
-  private extractTags(title: string): string[] {
-    const words = title.toLowerCase().split(/[\s\-_,]+/);
-    const relevantTags = words.filter(word =>
-      word.length > 2 &&
-      !['the', 'and', 'for', 'app', 'web'].includes(word)
-    );
-    return [...new Set(relevantTags)].slice(0, 8);
-  }
 }
@@ -0,0 +1,420 @@
+import type {
+  DesignSource,
+  BuiltinDesignSource,
+  DesignItem,
+  CollectorConfig,
+  InvalidDesignItem,
+  SourceRunMetrics,
+  DesignerProfile,
+} from '../types/index.js';
+import { DesignItemSchema, DesignSourceSchema } from '../types/index.js';
+import { BaseCollector, type ProfileTarget, type RunOptions } from './base-collector.js';
+import { DribbbleCollector } from './dribbble-collector.js';
+import { AwwwardsCollector } from './awwwards-collector.js';
+import { MobbinCollector } from './mobbin-collector.js';
+import { BehanceCollector } from './behance-collector.js';
+import { FigmaCollector } from './figma-collector.js';
+import { PinterestCollector } from './pinterest-collector.js';
+import { ProductHuntCollector } from './producthunt-collector.js';
+import { AppStoreCollector } from './appstore-collector.js';
+import { PlayStoreCollector } from './playstore-collector.js';
+import { CSSDesignAwardsCollector } from './cssawards-collector.js';
+import { SiteInspireCollector } from './siteinspire-collector.js';
+import { LayersCollector } from './layers-collector.js';
+import { LocalCollector, type LocalCollectorOptions } from './local-collector.js';
+import { FeedCollector, type FeedCollectorOptions } from './feed-collector.js';
+import { RunMetricsRecorder } from './run-metrics.js';
+import { scoreEngagement } from '../analyzers/engagement.js';
+import { fetchLimits, sampleItems } from './sampling.js';
+import type { CollectorProgress } from './progress.js';
+import { canonicalUrl } from '../http/index.js';
+import { getProfileSources } from './designer-profiles.js';
+
+/**
+ * Creates a collector instance; receives the options from the project config, if any
+ */
+export type CollectorFactoryFn = (options?: Record<string, unknown>) => BaseCollector;
+
+// What one source contributed to a collectFromAll/searchAll run
+interface SourceRun {
+  source: DesignSource;
+  items: DesignItem[];
+  // Items that failed DesignItemSchema; not in `items`
+  invalid: InvalidDesignItem[];
+  metrics: SourceRunMetrics;
+}
+
+type SourceRunFn = (collector: BaseCollector, limit: number, source: DesignSource) => Promise<DesignItem[]>;
+
+const DEFAULT_SOURCES: DesignSource[] = ['dribbble', 'awwwards', 'mobbin'];
+
+const BUILTIN_COLLECTORS: Record<BuiltinDesignSource, CollectorFactoryFn> = {
+  'dribbble': () => new DribbbleCollector(),
+  'awwwards': () => new AwwwardsCollector(),
+  'mobbin': () => new MobbinCollector(),
+  'behance': () => new BehanceCollector(),
+  'figma': () => new FigmaCollector(),
+  'pinterest': () => new PinterestCollector(),
+  'producthunt': () => new ProductHuntCollector(),
+  'appstore': () => new AppStoreCollector(),
+  'playstore': () => new PlayStoreCollector(),
+  'cssawards': () => new CSSDesignAwardsCollector(),
+  'siteinspire': () => new SiteInspireCollector(),
+  'layers': () => new LayersCollector(),
+  'local': (options) => new LocalCollector(options as LocalCollectorOptions),
+  'feeds': (options) => new FeedCollector(options as FeedCollectorOptions),
+};
+
+export class CollectorFactory {
+  private static collectors: Map<DesignSource, BaseCollector> = new Map();
+  private static factories: Map<DesignSource, CollectorFactoryFn> = new Map(
+    Object.entries(BUILTIN_COLLECTORS)
+  );
+  private static lastRunMetrics: SourceRunMetrics[] = [];
+  private static lastInvalidItems: InvalidDesignItem[] = [];
+
+  /**
+   * Register a collector for a source ID. Registering a built-in ID replaces it.
+   */
+  static register(id: DesignSource, factory: CollectorFactoryFn): void {
+    const parsed = DesignSourceSchema.safeParse(id);
+    if (!parsed.success) {
+      throw new Error(`Invalid source ID "${id}": ${parsed.error.issues[0]?.message}`);
+    }
+
+    this.factories.set(id, factory);
+    this.collectors.delete(id);
+  }
+
+  /**
+   * Remove a registered collector
+   */
+  static unregister(id: DesignSource): boolean {
+    this.collectors.delete(id);
+    return this.factories.delete(id);
+  }
+
+  /**
+   * Check whether a collector is available for a source ID
+   */
+  static isRegistered(id: string): id is DesignSource {
+    return this.factories.has(id);
+  }
+
+  /**
+   * List all source IDs that have a collector
+   */
+  static getRegisteredSources(): DesignSource[] {
+    return [...this.factories.keys()];
+  }
+
+  static getCollector(source: DesignSource): BaseCollector {
+    if (!this.collectors.has(source)) {
+      this.collectors.set(source, this.createCollector(source));
+    }
+    return this.collectors.get(source)!;
+  }
+
+  private static createCollector(source: DesignSource): BaseCollector {
+    const factory = this.factories.get(source);
+    if (!factory) {
+      throw new Error(`Unknown design source: ${source}`);
+    }
+    return factory();
+  }
+
+  /**
+   * Collect from every source in parallel, sampled with `config.sampling` and sorted
+   * by engagement score. Pass `config.signal` to cancel: sources still running count
+   * as failed and contribute nothing.
+   */
+  static async collectFromAll(config: CollectorConfig, progress?: CollectorProgress): Promise<DesignItem[]> {
+    const allItems: DesignItem[] = [];
+    const runs = this.runSources(config, progress, 'Error collecting from',
+      (collector, limit) => collector.collect({ ...config, limit }));
+
+    for await (const { items } of runs) {
+      allItems.push(...items);
+    }
+
+    // Raw likes are not comparable across sources, so sampling and ranking use the engagement score
+    return sampleItems(allItems, config);
+  }
+
+  /**
+   * Collect the latest work from designers' profile pages, grouped into one run
+   * per source. Profiles on sources without profile support are skipped. Profile
+   * pages are newest first, so incremental runs stop at the first known item.
+   */
+  static async collectFromDesigners(
+    designers: Array<{ name: string; profiles: DesignerProfile[] }>,
+    config: Partial<CollectorConfig> = {},
+    progress?: CollectorProgress
+  ): Promise<DesignItem[]> {
+    const supported = getProfileSources();
+    const targets = new Map<DesignSource, ProfileTarget[]>();
+    for (const designer of designers) {
+      for (const profile of designer.profiles) {
+        if (!supported.includes(profile.source) || !this.isRegistered(profile.source)) continue;
+        if (config.sources?.length && !config.sources.includes(profile.source)) continue;
+        targets.set(profile.source, [...(targets.get(profile.source) || []), { url: profile.url, designer: designer.name }]);
+      }
+    }
+
+    const profileConfig: CollectorConfig = { ...config, sources: [...targets.keys()], sortBy: 'recent' };
+    const allItems: DesignItem[] = [];
+    if (!profileConfig.sources.length) {
+      this.lastRunMetrics = [];
+      this.lastInvalidItems = [];
+      return allItems;
+    }
+
+    const runs = this.runSources(profileConfig, progress, 'Error collecting designer profiles from',
+      (collector, limit, source) => collector.collectProfiles(targets.get(source)!, { ...profileConfig, limit }));
+    for await (const { items } of runs) {
+      allItems.push(...items);
+    }
+
+    return sampleItems(allItems, profileConfig);
+  }
+
+  /**
+   * Streaming collectFromAll: yields each source's items as soon as that source
+   * finishes (not page by page; see the `page` progress event for that), up to the
+   * limit. Breaking out of the loop cancels the other sources.
+   * Sampling needs every source's items, so only the `weighted` fetch limits apply.
+   */
+  static streamFromAll(config: CollectorConfig, progress?: CollectorProgress): AsyncGenerator<DesignItem> {
+    return this.streamSources(config, progress, 'Error collecting from',
+      (collector, limit) => collector.collect({ ...config, limit }));
+  }
+
+  /**
+   * Per-source metrics of the last collectFromAll/searchAll call
+   */
+  static getLastRunMetrics(): SourceRunMetrics[] {
+    return this.lastRunMetrics;
+  }
+
+  /**
+   * Items of the last collectFromAll/searchAll call that failed validation,
+   * for the store's quarantine
+   */
+  static getLastInvalidItems(): InvalidDesignItem[] {
+    return this.lastInvalidItems;
+  }
+
+  /**
+   * Run the sources in parallel and yield each one's result as it finishes.
+   * Metrics are kept in source order for getLastRunMetrics().
+   */
+  private static async *runSources(
+    config: Partial<CollectorConfig>,
+    progress: CollectorProgress | undefined,
+    errorPrefix: string,
+    run: SourceRunFn
+  ): AsyncGenerator<SourceRun> {
+    const requested = config.sources?.length ? config.sources : DEFAULT_SOURCES;
+    const limits = fetchLimits(requested, config);
+    const sources = requested.filter(source => limits.get(source));
+
+    const pending = new Map(sources.map((source, index) => [
+      index,
+      this.runWithMetrics(source, collector => run(collector, limits.get(source)!, source), `${errorPrefix} ${source}:`, progress, {
+        signal: config.signal,
+        knownUrls: config.knownUrls,
+        stopAtKnown: config.sortBy === 'recent',
+      }).then(result => ({ index, result })),
+    ]));
+    const metrics: SourceRunMetrics[] = [];
+    const invalid: InvalidDesignItem[] = [];
+
+    try {
+      while (pending.size) {
+        const { index, result } = await Promise.race(pending.values());
+        pending.delete(index);
+        metrics[index] = result.metrics;
+        invalid.push(...result.invalid);
+        yield result;
+      }
+    } finally {
+      // A stream closed early only has the sources that finished
+      this.lastRunMetrics = metrics.filter(Boolean);
+      this.lastInvalidItems = invalid;
+    }
+  }
+
+  private static async *streamSources(
+    config: Partial<CollectorConfig>,
+    progress: CollectorProgress | undefined,
+    errorPrefix: string,
+    run: SourceRunFn
+  ): AsyncGenerator<DesignItem> {
+    // Own controller so that a consumer stopping early cancels the sources still running
+    const controller = new AbortController();
+    const forward = () => controller.abort(config.signal?.reason);
+    if (config.signal?.aborted) forward();
+    config.signal?.addEventListener('abort', forward, { once: true });
+
+    const limit = config.limit || 30;
+    let yielded = 0;
+
+    try {
+      const runs = this.runSources({ ...config, signal: controller.signal }, progress, errorPrefix, run);
+      for await (const { items } of runs) {
+        for (const item of items) {
+          if (yielded >= limit) return;
+          yielded++;
+          yield item;
+        }
+      }
+    } finally {
+      config.signal?.removeEventListener('abort', forward);
+      controller.abort();
+    }
+  }
+
+  /**
+   * Run one source with metrics recording; errors are logged and recorded, not thrown.
+   * Items whose URL is in `knownUrls` are left out, whether or not the collector paginated past them.
+   */
+  private static async runWithMetrics(
+    source: DesignSource,
+    run: (collector: BaseCollector) => Promise<DesignItem[]>,
+    errorMessage: string,
+    progress?: CollectorProgress,
+    options: Omit<RunOptions, 'progress'> = {}
+  ): Promise<SourceRun> {
+    const { signal, knownUrls } = options;
+    progress?.emit('source-start', { source });
+
+    let collector: BaseCollector;
+    try {
+      collector = this.getCollector(source);
+    } catch (error) {
+      console.error(errorMessage, error);
+      const recorder = new RunMetricsRecorder(source);
+      recorder.recordError(error);
+      return this.sourceFailed(source, error, recorder.finish(0), progress, false);
+    }
+
+    collector.startRunMetrics({ ...options, progress });
+    try {
+      signal?.throwIfAborted();
+      const collected = await run(collector);
+      const fresh = knownUrls ? collected.filter(item => !knownUrls.has(canonicalUrl(item.sourceUrl))) : collected;
+      const { items, invalid } = this.validateItems(source, fresh);
+      // A run returns one source's items, which is the population the score is relative to
+      scoreEngagement(items);
+      const recorded = collector.finishRunMetrics(items.length);
+      const metrics: SourceRunMetrics = { ...recorded, itemsDropped: recorded.itemsDropped + invalid.length };
+      if (knownUrls) metrics.itemsKnown = (recorded.itemsKnown || 0) + collected.length - fresh.length;
+      for (const item of items) {
+        progress?.emit('item', { source, item });
+      }
+      progress?.emit('source-done', { source, items: items.length, metrics });
+      return { source, items, invalid, metrics };
+    } catch (error) {
+      // Cancellation is what the caller asked for, not a source problem worth logging
+      const cancelled = signal?.aborted ?? false;
+      if (!cancelled) console.error(errorMessage, error);
+      return this.sourceFailed(source, error, collector.finishRunMetrics(0, error), progress, cancelled);
+    }
+  }
+
+  private static sourceFailed(
+    source: DesignSource,
+    error: unknown,
+    metrics: SourceRunMetrics,
+    progress: CollectorProgress | undefined,
+    cancelled: boolean
+  ): SourceRun {
+    progress?.emit('source-error', { source, error, cancelled });
+    progress?.emit('source-done', { source, items: 0, metrics });
+    return { source, items: [], invalid: [], metrics };
+  }
+
+  /**
+   * Split a collector's items into valid ones and ones for the quarantine
+   */
+  private static validateItems(
+    source: DesignSource,
+    collected: DesignItem[]
+  ): { items: DesignItem[]; invalid: InvalidDesignItem[] } {
+    const items: DesignItem[] = [];
+    const invalid: InvalidDesignItem[] = [];
+
+    for (const item of collected) {
+      const result = DesignItemSchema.safeParse(item);
+      if (result.success) {
+        items.push(result.data);
+      } else {
+        const error = result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ');
+        invalid.push({ item, error });
+      }
+    }
+
+    if (invalid.length) {
+      console.warn(`Quarantining ${invalid.length} invalid items from ${source} (first: ${invalid[0].error})`);
+    }
+    return { items, invalid };
+  }
+
+  /**
+   * Enrich items from their detail pages. Sources run in parallel; items of one
+   * source are visited one after another so the per-host rate limit applies.
+   */
+  static async enrichAll(items: DesignItem[]): Promise<DesignItem[]> {
+    const bySource = new Map<DesignSource, DesignItem[]>();
+    for (const item of items) {
+      if (!this.isRegistered(item.source)) continue;
+      const group = bySource.get(item.source) || [];
+      group.push(item);
+      bySource.set(item.source, group);
+    }
+
+    await Promise.all([...bySource.entries()].map(async ([source, group]) => {
+      const collector = this.getCollector(source);
+      for (const item of group) {
+        await collector.enrich(item);
+      }
+    }));
+
+    return items;
+  }
+
+  static async searchAll(
+    query: string,
+    config?: Partial<CollectorConfig>,
+    progress?: CollectorProgress
+  ): Promise<DesignItem[]> {
+    const results: SourceRun[] = [];
+    const runs = this.runSources(config || {}, progress, 'Error searching',
+      (collector, limit) => collector.search(query, { ...config, limit }));
+
+    for await (const result of runs) {
+      results.push(result);
+    }
+
+    // Relevance is per source, so keep the requested source order rather than completion order
+    const sources = config?.sources?.length ? config.sources : DEFAULT_SOURCES;
+    const items = results
+      .sort((a, b) => sources.indexOf(a.source) - sources.indexOf(b.source))
+      .flatMap(result => result.items);
+
+    // An explicit sampling strategy trades that order for balance
+    return config?.sampling ? sampleItems(items, config) : items.slice(0, config?.limit || 30);
+  }
+
+  /**
+   * Streaming searchAll, like streamFromAll
+   */
+  static streamSearch(
+    query: string,
+    config?: Partial<CollectorConfig>,
+    progress?: CollectorProgress
+  ): AsyncGenerator<DesignItem> {
+    return this.streamSources(config || {}, progress, 'Error searching',
+      (collector, limit) => collector.search(query, { ...config, limit }));
+  }
+}
@@ -0,0 +1,117 @@
+import * as cheerio from 'cheerio';
+import type { DesignItem, CollectorConfig, DesignCategory } from '../types/index.js';
+import { BaseCollector } from './base-collector.js';
+import type { SpecRecord } from './scrape-spec.js';
+
+export class CSSDesignAwardsCollector extends BaseCollector {
+  constructor() {
+    super('cssawards', 'https://www.cssdesignawards.com');
+  }
+
+  async collect(config: CollectorConfig): Promise<DesignItem[]> {
+    const spec = await this.loadScrapeSpec();
+
+    return this.paginate({
+      urls: this.buildEndpoints(config),
+      limit: config.limit || 20,
+      maxPages: config.maxPages,
+      parsePage: (html) => ({ items: this.parseWithSpec(html, spec, config) }),
+    });
+  }
+
+  async search(query: string, config?: Partial<CollectorConfig>): Promise<DesignItem[]> {
+    const searchUrl = `${this.baseUrl}/website-gallery?search=${encodeURIComponent(query)}`;
+    const searchConfig = { ...config, searchQuery: query } as CollectorConfig;
+    const spec = await this.loadScrapeSpec();
+
+    return this.paginate({
+      urls: [searchUrl],
+      limit: config?.limit || 20,
+      maxPages: config?.maxPages,
+      parsePage: (html) => ({ items: this.parseWithSpec(html, spec, searchConfig) }),
+    });
+  }
+
+  private buildEndpoints(config: CollectorConfig): string[] {
+    const endpoints: string[] = [];
+
+    if (config.categories?.length) {
+      for (const category of config.categories) {
+        const slug = this.categoryToFilter(category);
+        if (slug) {
+          endpoints.push(`${this.baseUrl}/website-gallery?category=${slug}`);
+        }
+      }
+    }
+
+    // Sort handling: recent gallery vs. Website of the Day winners
+    if (!endpoints.length) {
+      endpoints.push(config.sortBy === 'recent'
+        ? `${this.baseUrl}/website-gallery`
+        : `${this.baseUrl}/website-gallery?award=wotd`);
+    }
+
+    return endpoints;
+  }
+
+  private categoryToFilter(category: DesignCategory): string | null {
+    const mapping: Record<DesignCategory, string | null> = {
+      'web': null,
+      'mobile-ios': 'app',
+      'mobile-android': 'app',
+      'dashboard': 'technology',
+      'landing-page': 'business',
+      'e-commerce': 'ecommerce',
+      'saas': 'technology',
+      'portfolio': 'portfolio',
+      'social': 'community',
+      'fintech': 'finance',
+      'healthcare': 'health',
+      'education': 'education',
+    };
+    return mapping[category];
+  }
+
+  /**
+   * CSSDA judges websites on UI, UX and innovation; the card shows the average
+   */
+  protected refineSpecItem(item: DesignItem, record: SpecRecord): DesignItem {
+    const scores = this.extractScores(record.$el);
+    const $awards = record.$el.find('.award, [class*="award"]');
+    const awards = $awards.map((index) => $awards.eq(index).text().trim()).get().filter(Boolean);
+
+    return {
+      ...item,
+      likes: scores.overall ? Math.round(scores.overall * 100) : undefined,
+      metadata: { ...item.metadata, cssdaScores: scores, awards },
+    };
+  }
+
+  private extractScores(
+    $el: cheerio.Cheerio<any>
+  ): { overall?: number; ui?: number; ux?: number; innovation?: number } {
+    const scores: { overall?: number; ui?: number; ux?: number; innovation?: number } = {};
+
+    const $scores = $el.find('[class*="score"]');
+    $scores.each((index) => {
+      const $score = $scores.eq(index);
+      const label = `${$score.attr('class') || ''} ${$score.attr('title') || ''}`.toLowerCase();
+      const value = parseFloat($score.text().trim());
+      if (isNaN(value)) return;
+
+      if (label.includes('ui')) scores.ui = value;
+      else if (label.includes('ux')) scores.ux = value;
+      else if (label.includes('innovation')) scores.innovation = value;
+      else scores.overall = value;
+    });
+
+    if (scores.overall === undefined) {
+      const parts = [scores.ui, scores.ux, scores.innovation].filter((v): v is number => v !== undefined);
+      if (parts.length) {
+        scores.overall = parts.reduce((a, b) => a + b, 0) / parts.length;
+      }
+    }
+
+    return scores;
+  }
+}
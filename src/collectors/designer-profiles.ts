@@ -0,0 +1,63 @@
+import type { DesignerProfile, DesignSource } from '../types/index.js';
+
+interface ProfilePattern {
+  host: RegExp;
+  // Top-level paths that are site sections rather than user handles
+  reserved: Set<string>;
+  profileUrl: (handle: string) => string;
+}
+
+const PROFILE_PATTERNS: Partial<Record<DesignSource, ProfilePattern>> = {
+  dribbble: {
+    host: /^(www\.)?dribbble\.com$/,
+    reserved: new Set([
+      'shots', 'tags', 'search', 'designers', 'jobs', 'freelance-jobs', 'stories', 'learn', 'pro',
+      'signup', 'session', 'about', 'colors', 'following', 'resources', 'hiring', 'for-designers',
+    ]),
+    profileUrl: handle => `https://dribbble.com/${handle}`,
+  },
+  behance: {
+    host: /^(www\.)?behance\.net$/,
+    reserved: new Set([
+      'search', 'galleries', 'gallery', 'joblist', 'hire', 'assets', 'onboarding', 'live', 'blog',
+      'for_you', 'featured', 'about', 'pro', 'adobe',
+    ]),
+    profileUrl: handle => `https://www.behance.net/${handle}`,
+  },
+  awwwards: {
+    host: /^(www\.)?awwwards\.com$/,
+    reserved: new Set([
+      'websites', 'awards', 'sites', 'inspiration', 'blog', 'academy', 'jury', 'collections', 'elements',
+      'market', 'jobs', 'directory', 'conferences', 'search', 'submit', 'nominees', 'about-us', 'login',
+    ]),
+    profileUrl: handle => `https://www.awwwards.com/${handle}/`,
+  },
+};
+
+/**
+ * Sources whose collectors can read designer profile pages
+ */
+export function getProfileSources(): DesignSource[] {
+  return Object.keys(PROFILE_PATTERNS) as DesignSource[];
+}
+
+/**
+ * Recognize a Dribbble, Behance or Awwwards profile URL (any page under the
+ * profile works) and return the profile's canonical URL and handle
+ */
+export function detectDesignerProfile(url: string): (DesignerProfile & { handle: string }) | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+
+  for (const [source, pattern] of Object.entries(PROFILE_PATTERNS) as Array<[DesignSource, ProfilePattern]>) {
+    if (!pattern.host.test(parsed.hostname.toLowerCase())) continue;
+    const handle = decodeURIComponent(parsed.pathname.split('/')[1] || '');
+    if (!handle || pattern.reserved.has(handle.toLowerCase())) return null;
+    return { source, url: pattern.profileUrl(handle), handle };
+  }
+  return null;
+}
@@ -1,67 +1,149 @@
-import * as cheerio from 'cheerio';
-import type { DesignItem, CollectorConfig, DesignCategory, DesignStyle } from '../types/index.js';
-import { BaseCollector } from './base-collector.js';
+import type { DesignItem, CollectorConfig, DesignCategory } from '../types/index.js';
+import { canonicalUrl, getApiClient, type ApiClient } from '../http/index.js';
+import { BaseCollector, DEFAULT_MAX_PAGES } from './base-collector.js';
+
+// Dribbble API v2 shot, as returned by /user/shots
+export interface DribbbleApiShot {
+  id: number;
+  title: string;
+  description: string | null;
+  html_url: string;
+  images: { hidpi?: string | null; normal?: string; teaser?: string };
+  tags?: string[];
+  published_at?: string;
+  animated?: boolean;
+}
+
+export interface DribbbleApiUser {
+  name: string;
+  login: string;
+  html_url: string;
+}
 
 export class DribbbleCollector extends BaseCollector {
+  private tokenOwner: DribbbleApiUser | null | undefined;
+
   constructor() {
     super('dribbble', 'https://dribbble.com');
   }
 
+  /**
+   * Listings and tags always come from the HTML pages: API v2 has no public
+   * listing or search, only the authenticated user's own shots
+   */
   async collect(config: CollectorConfig): Promise<DesignItem[]> {
-    const items: DesignItem[] = [];
-    const limit = config.limit || 20;
+    const spec = await this.loadScrapeSpec();
+
+    return this.paginate({
+      urls: this.buildEndpoints(config),
+      limit: config.limit || 20,
+      maxPages: config.maxPages,
+      parsePage: (html) => ({ items: this.parseWithSpec(html, spec, config) }),
+    });
+  }
 
-    const endpoints = this.buildEndpoints(config);
+  /**
+   * The token owner's shots, newest first, from /user/shots
+   */
+  private async collectFromApi(client: ApiClient, user: DribbbleApiUser, config: CollectorConfig): Promise<DesignItem[]> {
+    const limit = config.limit || 20;
+    const perPage = Math.min(limit, 100);
+    const maxPages = config.maxPages ?? DEFAULT_MAX_PAGES;
+    const items: DesignItem[] = [];
 
-    for (const endpoint of endpoints) {
-      try {
-        const response = await this.fetchWithRetry(endpoint);
-        const html = await response.text();
-        const $ = cheerio.load(html);
+    for (let page = 1; page <= maxPages && items.length < limit; page++) {
+      const shots = await this.apiGet<DribbbleApiShot[]>(client, 'user/shots', { page, per_page: perPage });
+      this.metrics?.recordPage(shots.length);
+      items.push(...shots.map(shot => this.shotToItem(shot, user, config)));
+      if (shots.length < perPage) break;
+    }
 
-        $('[data-thumbnail-id], .shot-thumbnail').each((_, element) => {
-          if (items.length >= limit) return false;
+    return items.slice(0, limit);
+  }
 
-          const $el = $(element);
-          const item = this.parseDesignItem($, $el, config);
-          if (item) {
-            items.push(item);
-          }
-        });
+  /**
+   * The account the access token belongs to, looked up once per collector;
+   * null without a token or when the lookup fails
+   */
+  private async getTokenOwner(): Promise<DribbbleApiUser | null> {
+    const client = getApiClient('dribbble');
+    if (!client) return null;
 
-        await this.delay(1000); // Rate limiting
+    if (this.tokenOwner === undefined) {
+      try {
+        this.tokenOwner = await this.apiGet<DribbbleApiUser>(client, 'user');
       } catch (error) {
-        console.error(`Error collecting from ${endpoint}:`, error);
+        if (this.isCancelled()) throw error;
+        console.error('Error looking up the Dribbble token owner:', error);
+        this.tokenOwner = null;
       }
     }
+    return this.tokenOwner;
+  }
 
-    return items.slice(0, limit);
+  private shotToItem(shot: DribbbleApiShot, user: DribbbleApiUser, config: CollectorConfig): DesignItem {
+    const image = shot.images.hidpi || shot.images.normal || shot.images.teaser;
+    const description = this.stripHtml(shot.description);
+
+    return {
+      id: this.generateId(),
+      title: shot.title,
+      description,
+      source: 'dribbble',
+      sourceUrl: shot.html_url,
+      imageUrls: image ? [image] : [],
+      thumbnailUrl: shot.images.teaser || image,
+      designer: user.name || user.login,
+      designerUrl: user.html_url,
+      category: config.categories?.[0] || 'web',
+      styles: this.inferStylesFromKeywords(`${shot.title} ${description} ${(shot.tags || []).join(' ')}`),
+      colors: [],
+      tags: shot.tags || [],
+      publishedAt: this.parseDate(shot.published_at),
+      collectedAt: new Date(),
+      metadata: { via: 'api', shotId: shot.id, animated: shot.animated ?? false },
+    };
   }
 
   async search(query: string, config?: Partial<CollectorConfig>): Promise<DesignItem[]> {
     const searchUrl = `${this.baseUrl}/search/shots/popular?q=${encodeURIComponent(query)}`;
-    const items: DesignItem[] = [];
-    const limit = config?.limit || 20;
-
-    try {
-      const response = await this.fetchWithRetry(searchUrl);
-      const html = await response.text();
-      const $ = cheerio.load(html);
-
-      $('[data-thumbnail-id], .shot-thumbnail').each((_, element) => {
-        if (items.length >= limit) return false;
-
-        const $el = $(element);
-        const item = this.parseDesignItem($, $el, { ...config, searchQuery: query } as CollectorConfig);
-        if (item) {
-          items.push(item);
-        }
-      });
-    } catch (error) {
-      console.error(`Error searching Dribbble for "${query}":`, error);
+    const searchConfig = { ...config, searchQuery: query } as CollectorConfig;
+    const spec = await this.loadScrapeSpec();
+
+    return this.paginate({
+      urls: [searchUrl],
+      limit: config?.limit || 20,
+      maxPages: config?.maxPages,
+      parsePage: (html) => ({ items: this.parseWithSpec(html, spec, searchConfig) }),
+    });
+  }
+
+  /**
+   * Profile pages list the designer's shots newest first, in the same cards as the
+   * listings. The token owner's own profile is read from the API instead.
+   */
+  protected async collectProfile(profileUrl: string, config: CollectorConfig): Promise<DesignItem[]> {
+    const owner = await this.getTokenOwner();
+    if (!owner || canonicalUrl(owner.html_url) !== canonicalUrl(profileUrl)) {
+      return this.collectProfilePage(profileUrl, config);
     }
 
-    return items;
+    return this.withApiFallback(
+      'dribbble',
+      (client) => this.collectFromApi(client, owner, config),
+      () => this.collectProfilePage(profileUrl, config)
+    );
+  }
+
+  private async collectProfilePage(profileUrl: string, config: CollectorConfig): Promise<DesignItem[]> {
+    const spec = await this.loadScrapeSpec();
+
+    return this.paginate({
+      urls: [profileUrl],
+      limit: config.limit || 20,
+      maxPages: config.maxPages,
+      parsePage: (html) => ({ items: this.parseWithSpec(html, spec, config) }),
+    });
   }
 
   private buildEndpoints(config: CollectorConfig): string[] {
@@ -97,79 +179,4 @@ export class DribbbleCollector extends BaseCollector {
     };
     return mapping[category] || category;
   }
-
-  private parseDesignItem(
-    $: cheerio.CheerioAPI,
-    $el: cheerio.Cheerio<any>,
-    config: CollectorConfig
-  ): DesignItem | null {
-    try {
-      const $link = $el.find('a').first();
-      const href = $link.attr('href') || '';
-      const $img = $el.find('img').first();
-      const imgSrc = $img.attr('src') || $img.attr('data-src') || '';
-      const title = $img.attr('alt') || $link.attr('title') || 'Untitled';
-
-      const $designer = $el.find('.display-name, .user-info a').first();
-      const designerName = $designer.text().trim();
-      const designerUrl = $designer.attr('href');
-
-      const $stats = $el.find('.stats, .shot-stats');
-      const likesText = $stats.find('.likes, [data-likes]').text() || '0';
-      const viewsText = $stats.find('.views, [data-views]').text() || '0';
-
-      return {
-        id: this.generateId(),
-        title,
-        description: '',
-        source: 'dribbble',
-        sourceUrl: href.startsWith('http') ? href : `${this.baseUrl}${href}`,
-        imageUrls: [imgSrc],
-        thumbnailUrl: imgSrc,
-        designer: designerName || undefined,
-        designerUrl: designerUrl ? `${this.baseUrl}${designerUrl}` : undefined,
-        category: config.categories?.[0] || 'web',
-        styles: this.inferStyles(title, imgSrc),
-        colors: [],
-        tags: config.searchQuery ? [config.searchQuery] : [],
-        likes: this.parseNumber(likesText),
-        views: this.parseNumber(viewsText),
-        collectedAt: new Date(),
-      };
-    } catch {
-      return null;
-    }
-  }
-
-  private inferStyles(title: string, _imgSrc: string): DesignStyle[] {
-    const styles: DesignStyle[] = [];
-    const lowerTitle = title.toLowerCase();
-
-    if (lowerTitle.includes('minimal') || lowerTitle.includes('clean')) {
-      styles.push('minimalist');
-    }
-    if (lowerTitle.includes('dark') || lowerTitle.includes('night')) {
-      styles.push('dark-mode');
-    }
-    if (lowerTitle.includes('gradient')) {
-      styles.push('gradient');
-    }
-    if (lowerTitle.includes('3d') || lowerTitle.includes('three')) {
-      styles.push('3d');
-    }
-    if (lowerTitle.includes('glass') || lowerTitle.includes('blur')) {
-      styles.push('glassmorphism');
-    }
-    if (lowerTitle.includes('bento')) {
-      styles.push('bento');
-    }
-
-    return styles.length ? styles : ['minimalist'];
-  }
-
-  private parseNumber(str: string): number {
-    const cleaned = str.replace(/[^0-9.kKmM]/g, '');
-    const multiplier = str.toLowerCase().includes('k') ? 1000 : str.toLowerCase().includes('m') ? 1000000 : 1;
-    return Math.round(parseFloat(cleaned) * multiplier) || 0;
-  }
 }
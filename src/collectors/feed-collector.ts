@@ -0,0 +1,264 @@
+import * as cheerio from 'cheerio';
+import { z } from 'zod';
+import type { DesignItem, CollectorConfig, DesignStyle } from '../types/index.js';
+import { DesignCategorySchema, DesignStyleSchema } from '../types/index.js';
+import { RobotsDisallowedError } from '../http/index.js';
+import { BaseCollector } from './base-collector.js';
+
+export const FeedConfigSchema = z.object({
+  url: z.string().url(),
+  // Shown in item metadata; defaults to the feed's own title
+  name: z.string().optional(),
+  // Category for entries of this feed (feeds rarely say what kind of design they post)
+  category: DesignCategorySchema.optional(),
+  // Styles every entry of this feed gets, on top of keyword inference
+  styles: z.array(DesignStyleSchema).optional(),
+});
+
+export type FeedConfig = z.infer<typeof FeedConfigSchema>;
+
+export interface FeedCollectorOptions {
+  // Feeds to poll (env: DESIGN_SCOUT_FEEDS, comma-separated URLs)
+  feeds?: FeedConfig[];
+}
+
+// One RSS item or Atom entry before it becomes a DesignItem
+interface FeedEntry {
+  title: string;
+  link: string;
+  html: string;
+  summary: string;
+  publishedAt?: Date;
+  author?: string;
+  authorUrl?: string;
+  categories: string[];
+  mediaUrls: string[];
+}
+
+const IMAGE_URL_PATTERN = /\.(png|jpe?g|gif|webp|avif)(\?|$)/i;
+
+/**
+ * Entries from RSS 2.0 and Atom feeds of design galleries and blogs. Images come
+ * from enclosures, Media RSS (`media:content`, `media:thumbnail`) and the entry's HTML.
+ */
+export class FeedCollector extends BaseCollector {
+  private feeds: FeedConfig[];
+
+  constructor(options: FeedCollectorOptions = {}) {
+    super('feeds', 'https://feeds.invalid');
+    this.feeds = options.feeds || (process.env.DESIGN_SCOUT_FEEDS || '')
+      .split(',')
+      .map(url => url.trim())
+      .filter(Boolean)
+      .map(url => ({ url }));
+  }
+
+  async collect(config: CollectorConfig): Promise<DesignItem[]> {
+    const items = await this.collectFeeds(config);
+    return this.sortByDate(items).slice(0, config.limit || 10);
+  }
+
+  async search(query: string, config?: Partial<CollectorConfig>): Promise<DesignItem[]> {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const items = (await this.collectFeeds(config)).filter(item => {
+      const haystack = [item.title, item.description, ...item.tags].join(' ').toLowerCase();
+      return terms.every(term => haystack.includes(term));
+    });
+    return this.sortByDate(items).slice(0, config?.limit || 10);
+  }
+
+  private async collectFeeds(config?: Partial<CollectorConfig>): Promise<DesignItem[]> {
+    if (!this.feeds.length) {
+      throw new Error('No feeds configured: add "feeds" to the project config or set DESIGN_SCOUT_FEEDS');
+    }
+
+    const items: DesignItem[] = [];
+    const seen = new Set<string>();
+
+    for (const feed of this.feeds) {
+      // Feeds with a fixed category only contribute when that category is wanted
+      if (feed.category && config?.categories?.length && !config.categories.includes(feed.category)) continue;
+
+      let parsed: DesignItem[];
+      try {
+        const response = await this.fetchWithRetry(feed.url, {
+          headers: { Accept: 'application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8' },
+        });
+        parsed = this.parseFeed(await response.text(), feed);
+      } catch (error) {
+        if (this.isCancelled()) throw error;
+        this.metrics?.recordPageFailure(error);
+        if (!(error instanceof RobotsDisallowedError)) {
+          console.error(`Error reading feed ${feed.url}:`, error);
+        }
+        continue;
+      }
+      this.metrics?.recordPage(parsed.length, feed.url);
+
+      for (const item of parsed) {
+        if (seen.has(item.sourceUrl) || !this.matchesConfig(item, config)) continue;
+        seen.add(item.sourceUrl);
+        items.push(item);
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Parse an RSS 2.0 or Atom document into items. Entries without any image are dropped.
+   */
+  parseFeed(xml: string, feed: FeedConfig): DesignItem[] {
+    const $ = cheerio.load(xml, { xmlMode: true });
+    const isAtom = $('feed').length > 0;
+
+    const feedTitle = feed.name || (isAtom ? $('feed > title').first().text() : $('channel > title').first().text()).trim();
+    const entries = isAtom ? this.atomEntries($) : this.rssEntries($);
+    this.metrics?.recordSelector(isAtom ? 'feed > entry' : 'channel > item', entries.length);
+
+    const items: DesignItem[] = [];
+    for (const entry of entries) {
+      const imageUrls = this.entryImages(entry);
+      if (!entry.link || !imageUrls.length) {
+        this.metrics?.recordDropped(1);
+        continue;
+      }
+      items.push(this.toItem(entry, imageUrls, feed, feedTitle));
+    }
+    return items;
+  }
+
+  private rssEntries($: cheerio.CheerioAPI): FeedEntry[] {
+    return $('channel > item').map((_, el) => {
+      const $item = $(el);
+      const html = $item.find('content\\:encoded').first().text() || $item.children('description').first().text();
+
+      const mediaUrls = [
+        ...$item.children('enclosure')
+          .filter((_, enc) => ($(enc).attr('type') || 'image/').startsWith('image/'))
+          .map((_, enc) => $(enc).attr('url')).get(),
+        ...this.mediaRssUrls($, $item),
+      ];
+
+      return {
+        title: $item.children('title').first().text().trim(),
+        link: ($item.children('link').first().text() || $item.children('guid[isPermaLink!="false"]').first().text()).trim(),
+        html,
+        summary: $item.children('description').first().text(),
+        publishedAt: this.parseDate($item.children('pubDate').first().text().trim() || $item.find('dc\\:date').first().text().trim()),
+        author: ($item.find('dc\\:creator').first().text() || $item.children('author').first().text()).trim() || undefined,
+        categories: $item.children('category').map((_, cat) => $(cat).text().trim()).get().filter(Boolean),
+        mediaUrls,
+      };
+    }).get();
+  }
+
+  private atomEntries($: cheerio.CheerioAPI): FeedEntry[] {
+    return $('feed > entry').map((_, el) => {
+      const $entry = $(el);
+      const $links = $entry.children('link');
+      const alternate = $links.filter((_, link) => !$(link).attr('rel') || $(link).attr('rel') === 'alternate').first();
+
+      const mediaUrls = [
+        ...$links
+          .filter((_, link) => $(link).attr('rel') === 'enclosure' && ($(link).attr('type') || 'image/').startsWith('image/'))
+          .map((_, link) => $(link).attr('href')).get(),
+        ...this.mediaRssUrls($, $entry),
+      ];
+
+      return {
+        title: $entry.children('title').first().text().trim(),
+        link: (alternate.attr('href') || $links.first().attr('href') || '').trim(),
+        html: $entry.children('content').first().text() || $entry.children('summary').first().text(),
+        summary: $entry.children('summary').first().text() || $entry.children('content').first().text(),
+        publishedAt: this.parseDate(($entry.children('published').first().text() || $entry.children('updated').first().text()).trim()),
+        author: $entry.find('author > name').first().text().trim() || undefined,
+        authorUrl: $entry.find('author > uri').first().text().trim() || undefined,
+        categories: $entry.children('category').map((_, cat) => $(cat).attr('term') || $(cat).attr('label') || '').get().filter(Boolean),
+        mediaUrls,
+      };
+    }).get();
+  }
+
+  // media:content and media:thumbnail, also when nested in a media:group
+  private mediaRssUrls($: cheerio.CheerioAPI, $entry: cheerio.Cheerio<any>): string[] {
+    const content = $entry.find('media\\:content')
+      .filter((_, media) => {
+        const medium = $(media).attr('medium');
+        const type = $(media).attr('type');
+        const url = $(media).attr('url') || '';
+        return medium === 'image' || !!type?.startsWith('image/') || (!medium && !type && IMAGE_URL_PATTERN.test(url));
+      })
+      .map((_, media) => $(media).attr('url')).get();
+    const thumbnails = $entry.find('media\\:thumbnail').map((_, thumb) => $(thumb).attr('url')).get();
+    return [...content, ...thumbnails];
+  }
+
+  /**
+   * Feed media first, then images in the entry's HTML, resolved against the entry link
+   */
+  private entryImages(entry: FeedEntry): string[] {
+    const $html = cheerio.load(entry.html || '');
+    const inline = $html('img')
+      .map((_, img) => $html(img).attr('src') || $html(img).attr('data-src') || this.largestFromSrcset($html(img).attr('srcset')))
+      .get();
+
+    const urls = [...entry.mediaUrls, ...inline]
+      .filter((url): url is string => !!url && !url.startsWith('data:'))
+      .map(url => {
+        try {
+          return new URL(url, entry.link || undefined).href;
+        } catch {
+          return null;
+        }
+      })
+      .filter((url): url is string => !!url);
+
+    return [...new Set(urls)];
+  }
+
+  private toItem(entry: FeedEntry, imageUrls: string[], feed: FeedConfig, feedTitle: string): DesignItem {
+    const description = this.stripHtml(entry.summary).slice(0, 500);
+    const keywordText = [entry.title, description, ...entry.categories].join(' ');
+
+    // Feed hints come first; keyword inference only adds to them, without its minimalist fallback
+    const inferred = this.inferStylesFromKeywords(keywordText);
+    const isFallback = inferred.length === 1 && inferred[0] === 'minimalist' && !/minimal|clean|simple/i.test(keywordText);
+    const styles: DesignStyle[] = feed.styles?.length
+      ? [...new Set([...feed.styles, ...(isFallback ? [] : inferred)])]
+      : inferred;
+
+    return {
+      id: this.generateId(),
+      title: entry.title || 'Untitled',
+      description,
+      source: 'feeds',
+      sourceUrl: entry.link,
+      imageUrls,
+      thumbnailUrl: imageUrls[0],
+      designer: entry.author,
+      designerUrl: entry.authorUrl,
+      category: feed.category || 'web',
+      styles,
+      colors: [],
+      tags: [...new Set(entry.categories.map(category => category.toLowerCase()))],
+      publishedAt: entry.publishedAt,
+      // Feeds are polled rather than crawled, so an entry counts as collected when it was published
+      collectedAt: entry.publishedAt || new Date(),
+      metadata: {
+        feed: feedTitle || feed.url,
+        feedUrl: feed.url,
+      },
+    };
+  }
+
+  private matchesConfig(item: DesignItem, config?: Partial<CollectorConfig>): boolean {
+    if (config?.categories?.length && !config.categories.includes(item.category)) return false;
+    if (config?.styles?.length && !config.styles.some(style => item.styles.includes(style))) return false;
+    return true;
+  }
+
+  private sortByDate(items: DesignItem[]): DesignItem[] {
+    return [...items].sort((a, b) => (b.publishedAt?.getTime() || 0) - (a.publishedAt?.getTime() || 0));
+  }
+}
@@ -1,53 +1,118 @@
-import * as cheerio from 'cheerio';
-import type { DesignItem, CollectorConfig, DesignCategory, DesignStyle } from '../types/index.js';
+import type { DesignItem, CollectorConfig, DesignCategory } from '../types/index.js';
+import type { ApiClient } from '../http/index.js';
 import { BaseCollector } from './base-collector.js';
+import type { SpecRecord } from './scrape-spec.js';
+
+// A file as listed by /projects/:id/files
+export interface FigmaApiFile {
+  key: string;
+  name: string;
+  thumbnail_url?: string;
+  last_modified?: string;
+}
+
+export interface FigmaApiOptions {
+  // Teams whose projects' files are collected (env: FIGMA_TEAM_ID, comma-separated)
+  teamIds?: string[];
+  // Individual files, e.g. community files duplicated into your drafts (env: FIGMA_FILE_KEYS)
+  fileKeys?: string[];
+}
 
 export class FigmaCollector extends BaseCollector {
-  constructor() {
+  private teamIds: string[];
+  private fileKeys: string[];
+
+  constructor(options: FigmaApiOptions = {}) {
     super('figma', 'https://www.figma.com/community');
+    this.teamIds = options.teamIds || this.envList('FIGMA_TEAM_ID');
+    this.fileKeys = options.fileKeys || this.envList('FIGMA_FILE_KEYS');
   }
 
   async collect(config: CollectorConfig): Promise<DesignItem[]> {
-    const items: DesignItem[] = [];
-    const limit = config.limit || 10;
-
-    try {
-      const urls = this.buildUrls(config);
+    const viaHtml = async () => {
+      const spec = await this.loadScrapeSpec();
+
+      return this.paginate({
+        urls: this.buildUrls(config),
+        limit: config.limit || 10,
+        maxPages: config.maxPages,
+        parsePage: (html) => ({ items: this.parseWithSpec(html, spec, config) }),
+      });
+    };
 
-      for (const url of urls) {
-        if (items.length >= limit) break;
+    // The REST API cannot browse the community, only files a token can see
+    if (!this.teamIds.length && !this.fileKeys.length) return viaHtml();
+    return this.withApiFallback('figma', (client) => this.collectFromApi(client, config), viaHtml);
+  }
 
-        try {
-          const response = await this.fetchWithRetry(url);
-          const html = await response.text();
-          const pageItems = this.parseCommunityPage(html, config);
-          items.push(...pageItems);
-        } catch (error) {
-          console.error(`Error fetching ${url}:`, error);
-        }
+  /**
+   * Files from the configured teams' projects, then the configured file keys
+   */
+  private async collectFromApi(client: ApiClient, config: CollectorConfig): Promise<DesignItem[]> {
+    const limit = config.limit || 10;
+    const files: FigmaApiFile[] = [];
+
+    for (const teamId of this.teamIds) {
+      const { projects = [] } = await this.apiGet<{ projects?: Array<{ id: string | number; name: string }> }>(
+        client, `teams/${teamId}/projects`);
+      for (const project of projects) {
+        if (files.length >= limit) break;
+        const { files: projectFiles = [] } = await this.apiGet<{ files?: FigmaApiFile[] }>(
+          client, `projects/${project.id}/files`);
+        this.metrics?.recordPage(projectFiles.length);
+        files.push(...projectFiles);
       }
-    } catch (error) {
-      console.error('Error collecting from Figma:', error);
     }
 
-    return items.slice(0, limit);
+    for (const key of this.fileKeys) {
+      if (files.length >= limit) break;
+      const file = await this.apiGet<{ name: string; thumbnailUrl?: string; lastModified?: string }>(
+        client, `files/${key}`, { depth: 1 });
+      this.metrics?.recordPage(1);
+      files.push({ key, name: file.name, thumbnail_url: file.thumbnailUrl, last_modified: file.lastModified });
+    }
+
+    return files.slice(0, limit).map(file => this.fileToItem(file, config));
   }
 
-  async search(query: string, config?: Partial<CollectorConfig>): Promise<DesignItem[]> {
-    const items: DesignItem[] = [];
-    const limit = config?.limit || 10;
+  private fileToItem(file: FigmaApiFile, config: CollectorConfig): DesignItem {
+    return {
+      id: this.generateId(),
+      title: file.name,
+      description: 'Figma file',
+      source: 'figma',
+      sourceUrl: `https://www.figma.com/file/${file.key}`,
+      imageUrls: file.thumbnail_url ? [file.thumbnail_url] : [],
+      thumbnailUrl: file.thumbnail_url,
+      category: config.categories?.[0] || 'web',
+      styles: this.inferStylesFromKeywords(file.name),
+      colors: [],
+      tags: [],
+      publishedAt: this.parseDate(file.last_modified),
+      collectedAt: new Date(),
+      metadata: {
+        platform: 'figma',
+        via: 'api',
+        fileKey: file.key,
+        resourceType: this.inferResourceType(file.name),
+      },
+    };
+  }
 
-    try {
-      const searchUrl = `${this.baseUrl}/search?resource_type=mixed&sort_by=relevancy&query=${encodeURIComponent(query)}`;
-      const response = await this.fetchWithRetry(searchUrl);
-      const html = await response.text();
-      const pageItems = this.parseCommunityPage(html, config);
-      items.push(...pageItems);
-    } catch (error) {
-      console.error('Error searching Figma:', error);
-    }
+  private envList(name: string): string[] {
+    return (process.env[name] || '').split(',').map(v => v.trim()).filter(Boolean);
+  }
 
-    return items.slice(0, limit);
+  async search(query: string, config?: Partial<CollectorConfig>): Promise<DesignItem[]> {
+    const searchUrl = `${this.baseUrl}/search?resource_type=mixed&sort_by=relevancy&query=${encodeURIComponent(query)}`;
+    const spec = await this.loadScrapeSpec();
+
+    return this.paginate({
+      urls: [searchUrl],
+      limit: config?.limit || 10,
+      maxPages: config?.maxPages,
+      parsePage: (html) => ({ items: this.parseWithSpec(html, spec, config) }),
+    });
   }
 
   private buildUrls(config: CollectorConfig): string[] {
@@ -92,148 +157,27 @@ export class FigmaCollector extends BaseCollector {
     return mapping[category] || null;
   }
 
-  private parseCommunityPage(html: string, config?: Partial<CollectorConfig>): DesignItem[] {
-    const $ = cheerio.load(html);
-    const items: DesignItem[] = [];
-
-    // Figma community file cards
-    $('a[href*="/community/file/"]').each((_, element) => {
-      try {
-        const $el = $(element);
-        const href = $el.attr('href') || '';
-        const $img = $el.find('img').first();
-        const imageUrl = $img.attr('src') || '';
-        const title = $el.find('[class*="title"]').text().trim() ||
-                     $img.attr('alt') ||
-                     $el.attr('aria-label') ||
-                     'Figma Design';
-
-        if (!href || items.length >= 20) return;
-
-        const sourceUrl = href.startsWith('http') ? href : `https://www.figma.com${href}`;
-
-        // Try to get creator info
-        const $creator = $el.parent().find('[class*="creator"], [class*="author"]');
-        const designer = $creator.text().trim() || 'Figma Community';
-
-        // Try to get stats
-        const $stats = $el.parent().find('[class*="likes"], [class*="duplicates"]');
-        const statsText = $stats.text();
-        const likesMatch = statsText.match(/(\d+(?:\.\d+)?[kKmM]?)/);
-        let likes = 0;
-        if (likesMatch) {
-          const num = likesMatch[1];
-          if (num.includes('k') || num.includes('K')) {
-            likes = Math.round(parseFloat(num) * 1000);
-          } else if (num.includes('m') || num.includes('M')) {
-            likes = Math.round(parseFloat(num) * 1000000);
-          } else {
-            likes = parseInt(num, 10) || 0;
-          }
-        }
-
-        const item: DesignItem = {
-          id: this.generateId(),
-          title,
-          description: `Figma Community resource by ${designer}`,
-          source: 'figma',
-          sourceUrl,
-          imageUrls: imageUrl ? [imageUrl] : [],
-          thumbnailUrl: imageUrl,
-          designer,
-          designerUrl: 'https://www.figma.com/community',
-          category: this.inferCategory(title, config?.categories),
-          styles: this.inferStyles(title),
-          colors: this.extractColors(html),
-          tags: this.extractTags(title),
-          likes,
-          collectedAt: new Date(),
-          metadata: {
-            platform: 'figma',
-            resourceType: this.inferResourceType(title),
-          },
-        };
-
-        items.push(item);
-      } catch (err) {
-        // Skip invalid items
-      }
-    });
-
-    // Also try plugin links
-    $('a[href*="/community/plugin/"]').each((_, element) => {
-      try {
-        const $el = $(element);
-        const href = $el.attr('href') || '';
-        const title = $el.text().trim() || 'Figma Plugin';
-        const $img = $el.find('img').first();
-        const imageUrl = $img.attr('src') || '';
-
-        if (!href || items.length >= 30) return;
-
-        const sourceUrl = href.startsWith('http') ? href : `https://www.figma.com${href}`;
-
-        const item: DesignItem = {
-          id: this.generateId(),
-          title,
-          description: `Figma plugin`,
-          source: 'figma',
-          sourceUrl,
-          imageUrls: imageUrl ? [imageUrl] : [],
-          thumbnailUrl: imageUrl,
-          category: 'web',
-          styles: ['minimalist'],
-          colors: [],
-          tags: ['plugin', 'figma', ...this.extractTags(title)],
-          collectedAt: new Date(),
-          metadata: {
-            platform: 'figma',
-            resourceType: 'plugin',
-          },
-        };
-
-        items.push(item);
-      } catch (err) {
-        // Skip invalid items
-      }
-    });
-
-    return items;
-  }
-
-  private inferCategory(title: string, preferred?: DesignCategory[]): DesignCategory {
-    const titleLower = title.toLowerCase();
-
-    if (preferred?.length) return preferred[0];
-
-    if (titleLower.includes('ios') || titleLower.includes('iphone')) return 'mobile-ios';
-    if (titleLower.includes('android')) return 'mobile-android';
-    if (titleLower.includes('mobile') || titleLower.includes('app')) return 'mobile-ios';
-    if (titleLower.includes('dashboard') || titleLower.includes('admin')) return 'dashboard';
-    if (titleLower.includes('landing')) return 'landing-page';
-    if (titleLower.includes('shop') || titleLower.includes('ecommerce') || titleLower.includes('store')) {
-      return 'e-commerce';
+  /**
+   * Files get a resource type from their title; plugins keep plain defaults
+   */
+  protected refineSpecItem(item: DesignItem, record: SpecRecord): DesignItem {
+    if (record.list.metadata.resourceType === 'plugin') {
+      return {
+        ...item,
+        designer: undefined,
+        designerUrl: undefined,
+        category: 'web',
+        styles: ['minimalist'],
+        colors: [],
+        tags: [...new Set(['plugin', 'figma', ...item.tags])],
+        likes: undefined,
+      };
     }
-    if (titleLower.includes('saas')) return 'saas';
-
-    return 'web';
-  }
 
-  private inferStyles(title: string): DesignStyle[] {
-    const styles: DesignStyle[] = [];
-    const titleLower = title.toLowerCase();
-
-    if (titleLower.includes('minimal') || titleLower.includes('clean')) styles.push('minimalist');
-    if (titleLower.includes('dark')) styles.push('dark-mode');
-    if (titleLower.includes('gradient')) styles.push('gradient');
-    if (titleLower.includes('3d')) styles.push('3d');
-    if (titleLower.includes('glass')) styles.push('glassmorphism');
-    if (titleLower.includes('neumorphism') || titleLower.includes('soft ui')) styles.push('neumorphism');
-    if (titleLower.includes('illustration')) styles.push('illustration');
-    if (titleLower.includes('bento')) styles.push('bento');
-    if (titleLower.includes('brutalist')) styles.push('brutalist');
-
-    return styles.length > 0 ? styles : ['minimalist'];
+    return {
+      ...item,
+      metadata: { ...item.metadata, resourceType: this.inferResourceType(item.title) },
+    };
   }
 
   private inferResourceType(title: string): string {
@@ -249,13 +193,4 @@ export class FigmaCollector extends BaseCollector {
 
     return 'file';
   }
-
-  private extractTags(title: string): string[] {
-    const words = title.toLowerCase().split(/[\s\-_,()[\]]+/);
-    const stopWords = ['the', 'and', 'for', 'a', 'an', 'in', 'on', 'to', 'with', 'by', 'free'];
-    const relevantTags = words.filter(word =>
-      word.length > 2 && !stopWords.includes(word)
-    );
-    return [...new Set(relevantTags)].slice(0, 10);
-  }
 }
@@ -0,0 +1,67 @@
+import type { DesignItem, CollectorConfig, DesignCategory } from '../types/index.js';
+import { BaseCollector } from './base-collector.js';
+
+export class LayersCollector extends BaseCollector {
+  constructor() {
+    super('layers', 'https://layers.to');
+  }
+
+  async collect(config: CollectorConfig): Promise<DesignItem[]> {
+    const spec = await this.loadScrapeSpec();
+
+    return this.paginate({
+      urls: this.buildEndpoints(config),
+      limit: config.limit || 20,
+      maxPages: config.maxPages,
+      parsePage: (html) => ({ items: this.parseWithSpec(html, spec, config) }),
+    });
+  }
+
+  async search(query: string, config?: Partial<CollectorConfig>): Promise<DesignItem[]> {
+    const searchUrl = `${this.baseUrl}/search?q=${encodeURIComponent(query)}`;
+    const searchConfig = { ...config, searchQuery: query } as CollectorConfig;
+    const spec = await this.loadScrapeSpec();
+
+    return this.paginate({
+      urls: [searchUrl],
+      limit: config?.limit || 20,
+      maxPages: config?.maxPages,
+      parsePage: (html) => ({ items: this.parseWithSpec(html, spec, searchConfig) }),
+    });
+  }
+
+  private buildEndpoints(config: CollectorConfig): string[] {
+    const endpoints: string[] = [];
+
+    if (config.categories?.length) {
+      for (const category of config.categories) {
+        const tag = this.categoryToTag(category);
+        endpoints.push(`${this.baseUrl}/search?q=${encodeURIComponent(tag)}`);
+      }
+    }
+
+    if (!endpoints.length) {
+      endpoints.push(config.sortBy === 'recent' ? `${this.baseUrl}/explore?sort=recent` : `${this.baseUrl}/explore`);
+    }
+
+    return endpoints;
+  }
+
+  private categoryToTag(category: DesignCategory): string {
+    const mapping: Record<DesignCategory, string> = {
+      'web': 'website',
+      'mobile-ios': 'ios',
+      'mobile-android': 'android',
+      'dashboard': 'dashboard',
+      'landing-page': 'landing page',
+      'e-commerce': 'ecommerce',
+      'saas': 'saas',
+      'portfolio': 'portfolio',
+      'social': 'social',
+      'fintech': 'fintech',
+      'healthcare': 'health',
+      'education': 'education',
+    };
+    return mapping[category] || category;
+  }
+}
@@ -0,0 +1,344 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import sharp from 'sharp';
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+import type { DesignItem, CollectorConfig, DesignCategory, DesignStyle } from '../types/index.js';
+import { DesignCategorySchema, DesignStyleSchema } from '../types/index.js';
+import { ColorExtractor } from '../analyzers/color-extractor.js';
+import { BaseCollector } from './base-collector.js';
+
+export const DEFAULT_LOCAL_DIR = './inspiration';
+export const DEFAULT_LOCAL_INDEX = './data/local-index.json';
+
+const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.webp', '.gif', '.avif', '.tif', '.tiff']);
+const SIDECAR_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+// Portrait images at least this much taller than wide are treated as phone screens
+const MOBILE_ASPECT_RATIO = 1.3;
+
+/**
+ * Metadata kept next to an image, e.g. `login.png.json` or `login.yaml`
+ */
+export const LocalSidecarSchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  category: DesignCategorySchema,
+  styles: z.array(DesignStyleSchema),
+  tags: z.array(z.string()),
+  designer: z.string(),
+  designerUrl: z.string().url(),
+  // Where the screenshot was taken from
+  sourceUrl: z.string().url(),
+  likes: z.number().int().min(0),
+  publishedAt: z.coerce.date(),
+  colors: z.array(z.string()),
+  metadata: z.record(z.unknown()),
+}).partial();
+
+export type LocalSidecar = z.infer<typeof LocalSidecarSchema>;
+
+export interface LocalCollectorOptions {
+  // Directory scanned for images (env: DESIGN_SCOUT_LOCAL_DIR)
+  dir?: string;
+  // Where image analysis results are cached between scans
+  indexPath?: string;
+  recursive?: boolean;
+}
+
+// Analysis of one image, keyed by content hash so renames and moves stay cached
+interface LocalIndexEntry {
+  width: number;
+  height: number;
+  colors: string[];
+  brightness: 'light' | 'dark' | 'mixed';
+  firstSeenAt: string;
+}
+
+interface LocalIndex {
+  version: 1;
+  entries: Record<string, LocalIndexEntry>;
+}
+
+export interface LocalScanResult {
+  items: DesignItem[];
+  analyzed: number;
+  cached: number;
+  // Index entries dropped because their image is gone
+  removed: number;
+}
+
+/**
+ * Designs from a folder of screenshots on disk. Images are hashed on every scan;
+ * only new or changed ones are measured and run through color extraction.
+ */
+export class LocalCollector extends BaseCollector {
+  private dir: string;
+  private indexPath: string;
+  private recursive: boolean;
+  private colorExtractor = new ColorExtractor();
+
+  constructor(options: LocalCollectorOptions = {}) {
+    const dir = path.resolve(options.dir || process.env.DESIGN_SCOUT_LOCAL_DIR || DEFAULT_LOCAL_DIR);
+    super('local', pathToFileURL(dir).href);
+    this.dir = dir;
+    this.indexPath = options.indexPath || DEFAULT_LOCAL_INDEX;
+    this.recursive = options.recursive ?? true;
+  }
+
+  async collect(config: CollectorConfig): Promise<DesignItem[]> {
+    const { items } = await this.scan();
+
+    return this.sortItems(items.filter(item => this.matchesConfig(item, config)), config.sortBy)
+      .slice(0, config.limit || 10);
+  }
+
+  async search(query: string, config?: Partial<CollectorConfig>): Promise<DesignItem[]> {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const { items } = await this.scan();
+
+    const matches = items.filter(item => {
+      const haystack = [item.title, item.description, ...item.tags, String(item.metadata?.path || '')]
+        .join(' ')
+        .toLowerCase();
+      return terms.every(term => haystack.includes(term)) && this.matchesConfig(item, config);
+    });
+
+    return this.sortItems(matches, config?.sortBy).slice(0, config?.limit || 10);
+  }
+
+  /**
+   * Walk the directory and build items for every image. Images whose hash is
+   * already in the index reuse its dimensions and colors.
+   */
+  async scan(): Promise<LocalScanResult> {
+    let files: string[];
+    try {
+      files = await this.listImages(this.dir);
+    } catch (error) {
+      throw new Error(`Cannot read local design folder ${this.dir}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const index = await this.loadIndex();
+    const seen = new Set<string>();
+    const items: DesignItem[] = [];
+    let analyzed = 0;
+
+    for (const file of files) {
+      this.signal?.throwIfAborted();
+      try {
+        const content = await fs.readFile(file);
+        const hash = crypto.createHash('sha256').update(content).digest('hex');
+        // Copies of the same screenshot are one design
+        if (seen.has(hash)) continue;
+        seen.add(hash);
+
+        let entry = index.entries[hash];
+        if (!entry) {
+          entry = await this.analyze(file, content);
+          index.entries[hash] = entry;
+          analyzed++;
+        }
+
+        const stat = await fs.stat(file);
+        items.push(this.toItem(file, hash, entry, stat.mtime, await this.readSidecar(file)));
+      } catch (error) {
+        console.error(`Error reading ${file}:`, error);
+        this.metrics?.recordError(error);
+      }
+    }
+
+    const stale = Object.keys(index.entries).filter(hash => !seen.has(hash));
+    stale.forEach(hash => delete index.entries[hash]);
+
+    if (analyzed || stale.length) {
+      await this.saveIndex(index);
+    }
+
+    this.metrics?.recordPage(items.length);
+    return { items, analyzed, cached: items.length - analyzed, removed: stale.length };
+  }
+
+  private async listImages(dir: string): Promise<string[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    const files: string[] = [];
+
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name.startsWith('.')) continue;
+      const fullPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory() && this.recursive) {
+        files.push(...await this.listImages(fullPath));
+      } else if (entry.isFile() && IMAGE_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+        files.push(fullPath);
+      }
+    }
+    return files;
+  }
+
+  private async analyze(file: string, content: Buffer): Promise<LocalIndexEntry> {
+    const metadata = await sharp(content).metadata();
+    // EXIF orientations 5-8 are rotated by 90°, so the stored width is the display height
+    const rotated = (metadata.orientation || 1) >= 5;
+    const colors = await this.colorExtractor.extractFromFile(file);
+
+    return {
+      width: (rotated ? metadata.height : metadata.width) || 0,
+      height: (rotated ? metadata.width : metadata.height) || 0,
+      colors: colors.dominantColors.slice(0, 6).map(color => color.hex),
+      brightness: colors.brightness,
+      firstSeenAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * `shot.png.json`, `shot.json`, `shot.png.yaml`, ... whichever exists first
+   */
+  private async readSidecar(file: string): Promise<LocalSidecar> {
+    const stem = file.slice(0, -path.extname(file).length);
+    const candidates = [file, stem].flatMap(base => SIDECAR_EXTENSIONS.map(ext => `${base}${ext}`));
+
+    for (const candidate of candidates) {
+      let content: string;
+      try {
+        content = await fs.readFile(candidate, 'utf-8');
+      } catch {
+        continue;
+      }
+
+      try {
+        const raw = candidate.endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+        const result = LocalSidecarSchema.safeParse(raw ?? {});
+        if (result.success) return result.data;
+
+        const issues = result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ');
+        console.warn(`Ignoring invalid sidecar ${candidate}: ${issues}`);
+      } catch (error) {
+        console.warn(`Ignoring unreadable sidecar ${candidate}:`, error);
+      }
+      return {};
+    }
+    return {};
+  }
+
+  private toItem(file: string, hash: string, entry: LocalIndexEntry, modifiedAt: Date, sidecar: LocalSidecar): DesignItem {
+    const relativePath = path.relative(this.dir, file);
+    const fileUrl = pathToFileURL(file).href;
+    const title = sidecar.title || this.titleFromFileName(file);
+    const keywordText = [relativePath, title, sidecar.description || '', ...(sidecar.tags || [])].join(' ');
+
+    const styles = sidecar.styles || this.inferStylesFromKeywords(keywordText);
+    if (!sidecar.styles && entry.brightness === 'dark' && !styles.includes('dark-mode')) {
+      styles.push('dark-mode');
+    }
+
+    return {
+      // Stable across scans so the store and moodboards see the same design
+      id: `local-${hash.slice(0, 16)}`,
+      title,
+      description: sidecar.description || '',
+      source: 'local',
+      sourceUrl: sidecar.sourceUrl || fileUrl,
+      imageUrls: [fileUrl],
+      thumbnailUrl: fileUrl,
+      designer: sidecar.designer,
+      designerUrl: sidecar.designerUrl,
+      category: sidecar.category || this.inferCategory(relativePath, entry),
+      styles,
+      colors: sidecar.colors || entry.colors,
+      tags: sidecar.tags || this.tagsFromPath(relativePath),
+      likes: sidecar.likes,
+      publishedAt: sidecar.publishedAt || modifiedAt,
+      collectedAt: new Date(entry.firstSeenAt),
+      metadata: {
+        ...sidecar.metadata,
+        path: relativePath,
+        hash,
+        width: entry.width,
+        height: entry.height,
+        orientation: this.orientation(entry),
+      },
+    };
+  }
+
+  /**
+   * Tall images are phone screens, everything else desktop. Folder and file
+   * names can narrow a desktop screenshot down, e.g. `dashboards/billing.png`.
+   */
+  private inferCategory(relativePath: string, entry: LocalIndexEntry): DesignCategory {
+    const text = relativePath.toLowerCase();
+
+    if (this.orientation(entry) === 'portrait' && entry.height >= entry.width * MOBILE_ASPECT_RATIO) {
+      return text.includes('android') ? 'mobile-android' : 'mobile-ios';
+    }
+
+    const keywords: Array<[DesignCategory, string[]]> = [
+      ['dashboard', ['dashboard', 'admin', 'analytics']],
+      ['landing-page', ['landing', 'hero']],
+      ['e-commerce', ['ecommerce', 'e-commerce', 'shop', 'checkout', 'store']],
+      ['saas', ['saas']],
+      ['portfolio', ['portfolio']],
+      ['fintech', ['fintech', 'banking', 'finance']],
+      ['healthcare', ['health', 'medical']],
+      ['education', ['education', 'course', 'learning']],
+      ['social', ['social', 'feed']],
+    ];
+    return keywords.find(([, words]) => words.some(word => text.includes(word)))?.[0] || 'web';
+  }
+
+  private orientation(entry: LocalIndexEntry): 'portrait' | 'landscape' | 'square' {
+    if (entry.height > entry.width) return 'portrait';
+    if (entry.width > entry.height) return 'landscape';
+    return 'square';
+  }
+
+  // Folder names double as tags: `fintech/onboarding/step1.png` -> fintech, onboarding
+  private tagsFromPath(relativePath: string): string[] {
+    return path.dirname(relativePath)
+      .split(path.sep)
+      .filter(segment => segment && segment !== '.')
+      .map(segment => segment.toLowerCase());
+  }
+
+  private titleFromFileName(file: string): string {
+    return path.basename(file, path.extname(file))
+      .replace(/[-_]+/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .replace(/\b\w/g, char => char.toUpperCase());
+  }
+
+  private matchesConfig(item: DesignItem, config?: Partial<CollectorConfig>): boolean {
+    if (config?.categories?.length && !config.categories.includes(item.category)) return false;
+    if (config?.styles?.length && !config.styles.some((style: DesignStyle) => item.styles.includes(style))) return false;
+    return true;
+  }
+
+  private sortItems(items: DesignItem[], sortBy?: CollectorConfig['sortBy']): DesignItem[] {
+    const time = (item: DesignItem) => item.publishedAt?.getTime() || 0;
+    return [...items].sort((a, b) =>
+      sortBy === 'recent' ? time(b) - time(a) : (b.likes || 0) - (a.likes || 0) || time(b) - time(a)
+    );
+  }
+
+  private async loadIndex(): Promise<LocalIndex> {
+    try {
+      const index = JSON.parse(await fs.readFile(this.indexPath, 'utf-8')) as LocalIndex;
+      if (index.version === 1 && index.entries) return index;
+    } catch {
+      // Missing or unreadable index: analyze everything again
+    }
+    return { version: 1, entries: {} };
+  }
+
+  private async saveIndex(index: LocalIndex): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.indexPath), { recursive: true });
+      await fs.writeFile(this.indexPath, JSON.stringify(index, null, 2), 'utf-8');
+    } catch (error) {
+      console.warn(`Could not write local index ${this.indexPath}:`, error);
+    }
+  }
+}
@@ -1,6 +1,6 @@
-import * as cheerio from 'cheerio';
-import type { DesignItem, CollectorConfig, DesignCategory, DesignStyle } from '../types/index.js';
+import type { DesignItem, CollectorConfig, DesignCategory } from '../types/index.js';
 import { BaseCollector } from './base-collector.js';
+import type { SpecRecord } from './scrape-spec.js';
 
 export class MobbinCollector extends BaseCollector {
   constructor() {
@@ -8,63 +8,46 @@ export class MobbinCollector extends BaseCollector {
   }
 
   async collect(config: CollectorConfig): Promise<DesignItem[]> {
-    const items: DesignItem[] = [];
-    const limit = config.limit || 20;
-
     // Mobbin specializes in mobile app UI patterns
     const platform = this.determinePlatform(config.categories);
-    const endpoints = this.buildEndpoints(platform, config);
-
-    for (const endpoint of endpoints) {
-      try {
-        const response = await this.fetchWithRetry(endpoint);
-        const html = await response.text();
-        const $ = cheerio.load(html);
-
-        $('[data-testid="screen-card"], .screen-card, article').each((_, element) => {
-          if (items.length >= limit) return false;
-
-          const $el = $(element);
-          const item = this.parseDesignItem($, $el, config, platform);
-          if (item) {
-            items.push(item);
-          }
-        });
-
-        await this.delay(1200);
-      } catch (error) {
-        console.error(`Error collecting from ${endpoint}:`, error);
-      }
-    }
-
-    return items.slice(0, limit);
+    const spec = await this.loadScrapeSpec();
+
+    return this.paginate({
+      urls: this.buildEndpoints(platform, config),
+      limit: config.limit || 20,
+      maxPages: config.maxPages,
+      parsePage: (html) => ({ items: this.parseWithSpec(html, spec, config) }),
+    });
   }
 
   async search(query: string, config?: Partial<CollectorConfig>): Promise<DesignItem[]> {
     const platform = config?.categories ? this.determinePlatform(config.categories) : 'ios';
     const searchUrl = `${this.baseUrl}/browse/${platform}/apps?q=${encodeURIComponent(query)}`;
-    const items: DesignItem[] = [];
-    const limit = config?.limit || 20;
-
-    try {
-      const response = await this.fetchWithRetry(searchUrl);
-      const html = await response.text();
-      const $ = cheerio.load(html);
-
-      $('[data-testid="screen-card"], .screen-card, article').each((_, element) => {
-        if (items.length >= limit) return false;
-
-        const $el = $(element);
-        const item = this.parseDesignItem($, $el, { ...config, searchQuery: query } as CollectorConfig, platform);
-        if (item) {
-          items.push(item);
-        }
-      });
-    } catch (error) {
-      console.error(`Error searching Mobbin for "${query}":`, error);
-    }
+    const searchConfig = { ...config, searchQuery: query } as CollectorConfig;
+    const spec = await this.loadScrapeSpec();
+
+    return this.paginate({
+      urls: [searchUrl],
+      limit: config?.limit || 20,
+      maxPages: config?.maxPages,
+      parsePage: (html) => ({ items: this.parseWithSpec(html, spec, searchConfig) }),
+    });
+  }
 
-    return items;
+  /**
+   * Category, tags and metadata follow the platform being browsed
+   */
+  protected refineSpecItem(item: DesignItem, record: SpecRecord, config?: Partial<CollectorConfig>): DesignItem {
+    const platform = this.determinePlatform(config?.categories);
+    const screenType = record.fields.screenType?.[0] || 'Screen';
+    const appName = record.fields.appName?.[0] || 'Untitled App';
+
+    return {
+      ...item,
+      category: platform === 'android' ? 'mobile-android' : platform === 'ios' ? 'mobile-ios' : 'web',
+      tags: [platform, screenType.toLowerCase(), ...(config?.searchQuery ? [config.searchQuery] : [])],
+      metadata: { platform, screenType, appName },
+    };
   }
 
   private determinePlatform(categories?: DesignCategory[]): 'ios' | 'android' | 'web' {
@@ -130,88 +113,4 @@ export class MobbinCollector extends BaseCollector {
     };
     return mapping[category];
   }
-
-  private parseDesignItem(
-    $: cheerio.CheerioAPI,
-    $el: cheerio.Cheerio<any>,
-    config: CollectorConfig,
-    platform: 'ios' | 'android' | 'web'
-  ): DesignItem | null {
-    try {
-      const $link = $el.find('a').first();
-      const href = $link.attr('href') || '';
-
-      const $img = $el.find('img').first();
-      const imgSrc = $img.attr('src') || $img.attr('data-src') || '';
-      const altText = $img.attr('alt') || '';
-
-      // App name and screen type
-      const $appName = $el.find('[data-testid="app-name"], .app-name, h3, h4').first();
-      const appName = $appName.text().trim() || altText.split(' - ')[0] || 'Untitled App';
-
-      const $screenType = $el.find('[data-testid="screen-type"], .screen-type, .pattern-name').first();
-      const screenType = $screenType.text().trim() || 'Screen';
-
-      const title = `${appName} - ${screenType}`;
-
-      // Extract multiple screenshots if available
-      const imageUrls: string[] = [];
-      $el.find('img').each((_, imgEl) => {
-        const src = $(imgEl).attr('src') || $(imgEl).attr('data-src');
-        if (src && !imageUrls.includes(src)) {
-          imageUrls.push(src);
-        }
-      });
-
-      // Determine category based on platform
-      const category: DesignCategory = platform === 'android' ? 'mobile-android' :
-                                        platform === 'ios' ? 'mobile-ios' : 'web';
-
-      return {
-        id: this.generateId(),
-        title,
-        description: `Mobile UI pattern from ${appName}`,
-        source: 'mobbin',
-        sourceUrl: href.startsWith('http') ? href : `${this.baseUrl}${href}`,
-        imageUrls: imageUrls.length ? imageUrls : (imgSrc ? [imgSrc] : []),
-        thumbnailUrl: imgSrc || undefined,
-        designer: appName,
-        designerUrl: undefined,
-        category,
-        styles: this.inferMobileStyles($, $el),
-        colors: [],
-        tags: [platform, screenType.toLowerCase(), ...(config.searchQuery ? [config.searchQuery] : [])],
-        collectedAt: new Date(),
-        metadata: {
-          platform,
-          screenType,
-          appName,
-        },
-      };
-    } catch {
-      return null;
-    }
-  }
-
-  private inferMobileStyles($: cheerio.CheerioAPI, $el: cheerio.Cheerio<any>): DesignStyle[] {
-    const styles: DesignStyle[] = [];
-    const text = $el.text().toLowerCase();
-    const imgSrc = $el.find('img').attr('src')?.toLowerCase() || '';
-
-    // Analyze based on visual cues in image name or surrounding text
-    if (text.includes('dark') || imgSrc.includes('dark')) {
-      styles.push('dark-mode');
-    }
-    if (text.includes('minimal') || text.includes('clean')) {
-      styles.push('minimalist');
-    }
-    if (text.includes('gradient') || text.includes('colorful')) {
-      styles.push('gradient');
-    }
-    if (text.includes('card') || text.includes('bento')) {
-      styles.push('bento');
-    }
-
-    return styles.length ? styles : ['minimalist'];
-  }
 }
@@ -1,6 +1,7 @@
-import * as cheerio from 'cheerio';
 import type { DesignItem, CollectorConfig, DesignCategory, DesignStyle } from '../types/index.js';
-import { BaseCollector } from './base-collector.js';
+import { BaseCollector, type PageResult, type PageState } from './base-collector.js';
+import { imageList, type StructuredCandidate } from './structured-data.js';
+import type { ScrapeSpec } from './scrape-spec.js';
 
 export class PinterestCollector extends BaseCollector {
   constructor() {
@@ -8,48 +9,72 @@ export class PinterestCollector extends BaseCollector {
   }
 
   async collect(config: CollectorConfig): Promise<DesignItem[]> {
-    const items: DesignItem[] = [];
-    const limit = config.limit || 10;
-
-    try {
-      const urls = this.buildUrls(config);
+    const spec = await this.loadScrapeSpec();
+
+    return this.paginate({
+      urls: this.buildUrls(config),
+      limit: config.limit || 10,
+      maxPages: config.maxPages,
+      parsePage: (html) => this.parseResultPage(html, spec, config),
+      nextPage: (state) => this.nextBookmarkUrl(state),
+    });
+  }
 
-      for (const url of urls) {
-        if (items.length >= limit) break;
+  async search(query: string, config?: Partial<CollectorConfig>): Promise<DesignItem[]> {
+    // Add "ui design" or "web design" to improve results
+    const designQuery = `${query} ui design`;
+    const searchUrl = `${this.baseUrl}/search/pins/?q=${encodeURIComponent(designQuery)}`;
+    const spec = await this.loadScrapeSpec();
+
+    return this.paginate({
+      urls: [searchUrl],
+      limit: config?.limit || 10,
+      maxPages: config?.maxPages,
+      parsePage: (html) => this.parseResultPage(html, spec, config),
+      nextPage: (state) => this.nextBookmarkUrl(state),
+    });
+  }
 
-        try {
-          const response = await this.fetchWithRetry(url);
-          const html = await response.text();
-          const pageItems = this.parsePinterestPage(html, config);
-          items.push(...pageItems);
-        } catch (error) {
-          console.error(`Error fetching ${url}:`, error);
-        }
-      }
-    } catch (error) {
-      console.error('Error collecting from Pinterest:', error);
-    }
+  /**
+   * Pinterest paginates search results with an opaque "bookmark" cursor
+   */
+  private parseResultPage(html: string, spec: ScrapeSpec, config?: Partial<CollectorConfig>): PageResult {
+    const bookmarkMatch = html.match(/"bookmarks?"\s*:\s*\[?\s*"([^"]+)"/);
+    const bookmark = bookmarkMatch && bookmarkMatch[1] !== '-end-' ? bookmarkMatch[1] : null;
 
-    return items.slice(0, limit);
+    return {
+      items: this.parseWithSpec(html, spec, config),
+      cursor: bookmark,
+    };
   }
 
-  async search(query: string, config?: Partial<CollectorConfig>): Promise<DesignItem[]> {
-    const items: DesignItem[] = [];
-    const limit = config?.limit || 10;
-
-    try {
-      // Add "ui design" or "web design" to improve results
-      const designQuery = `${query} ui design`;
-      const searchUrl = `${this.baseUrl}/search/pins/?q=${encodeURIComponent(designQuery)}`;
-      const response = await this.fetchWithRetry(searchUrl);
-      const html = await response.text();
-      const pageItems = this.parsePinterestPage(html, config);
-      items.push(...pageItems);
-    } catch (error) {
-      console.error('Error searching Pinterest:', error);
-    }
+  /**
+   * Pins in __PWS_DATA__ have an id and an `images` size map but no URL
+   */
+  protected mapHydrationNode(node: Record<string, unknown>): StructuredCandidate | null {
+    const id = typeof node.id === 'string' ? node.id : undefined;
+    if (!id || !/^\d+$/.test(id) || !node.images) return null;
+
+    const imageUrls = imageList(node.images);
+    if (!imageUrls.length) return null;
+
+    const pinner = node.pinner as Record<string, unknown> | undefined;
+    const title = [node.grid_title, node.title, node.description]
+      .find((t): t is string => typeof t === 'string' && t.trim() !== '');
+
+    return {
+      title: this.cleanTitle(title || 'Pinterest Design'),
+      url: `${this.baseUrl}/pin/${id}/`,
+      imageUrls,
+      description: typeof node.description === 'string' ? node.description : undefined,
+      designer: typeof pinner?.full_name === 'string' ? pinner.full_name : undefined,
+      designerUrl: typeof pinner?.username === 'string' ? `${this.baseUrl}/${pinner.username}/` : undefined,
+      likes: typeof node.repin_count === 'number' ? node.repin_count : undefined,
+    };
+  }
 
-    return items.slice(0, limit);
+  private nextBookmarkUrl(state: PageState): string | null {
+    return state.cursor ? this.withQueryParam(state.url, 'bookmark', state.cursor) : null;
   }
 
   private buildUrls(config: CollectorConfig): string[] {
@@ -117,82 +142,6 @@ export class PinterestCollector extends BaseCollector {
     return mapping[style] || 'ui design';
   }
 
-  private parsePinterestPage(html: string, config?: Partial<CollectorConfig>): DesignItem[] {
-    const $ = cheerio.load(html);
-    const items: DesignItem[] = [];
-
-    // Pinterest pins - try multiple selectors
-    const selectors = [
-      'a[href*="/pin/"]',
-      '[data-test-id="pin"]',
-      '[class*="PinCard"]',
-      'div[data-grid-item]',
-    ];
-
-    for (const selector of selectors) {
-      if (items.length >= 20) break;
-
-      $(selector).each((_, element) => {
-        try {
-          const $el = $(element);
-
-          // Get pin URL
-          let href = $el.attr('href') || '';
-          if (!href) {
-            href = $el.find('a[href*="/pin/"]').attr('href') || '';
-          }
-          if (!href.includes('/pin/')) return;
-
-          // Get image
-          const $img = $el.find('img').first();
-          let imageUrl = $img.attr('src') || $img.attr('data-src') || '';
-
-          // Pinterest uses different image sizes, try to get larger version
-          if (imageUrl.includes('/236x/')) {
-            imageUrl = imageUrl.replace('/236x/', '/736x/');
-          }
-
-          if (!imageUrl || items.length >= 30) return;
-
-          // Get title/description
-          const title = $img.attr('alt') ||
-                       $el.find('[class*="title"]').text().trim() ||
-                       $el.attr('aria-label') ||
-                       'Pinterest Design';
-
-          const sourceUrl = href.startsWith('http') ? href : `${this.baseUrl}${href}`;
-
-          // Skip duplicates
-          if (items.some(i => i.sourceUrl === sourceUrl)) return;
-
-          const item: DesignItem = {
-            id: this.generateId(),
-            title: this.cleanTitle(title),
-            description: `Design inspiration from Pinterest`,
-            source: 'pinterest',
-            sourceUrl,
-            imageUrls: [imageUrl],
-            thumbnailUrl: imageUrl,
-            category: this.inferCategory(title, config?.categories),
-            styles: this.inferStyles(title),
-            colors: this.extractColors(html),
-            tags: this.extractTags(title),
-            collectedAt: new Date(),
-            metadata: {
-              platform: 'pinterest',
-            },
-          };
-
-          items.push(item);
-        } catch (err) {
-          // Skip invalid items
-        }
-      });
-    }
-
-    return items;
-  }
-
   private cleanTitle(title: string): string {
     // Remove common Pinterest suffixes
     return title
@@ -201,56 +150,4 @@ export class PinterestCollector extends BaseCollector {
       .trim()
       .slice(0, 100); // Limit length
   }
-
-  private inferCategory(title: string, preferred?: DesignCategory[]): DesignCategory {
-    const titleLower = title.toLowerCase();
-
-    if (preferred?.length) return preferred[0];
-
-    if (titleLower.includes('mobile') || titleLower.includes('app')) {
-      if (titleLower.includes('android')) return 'mobile-android';
-      return 'mobile-ios';
-    }
-    if (titleLower.includes('dashboard') || titleLower.includes('admin')) return 'dashboard';
-    if (titleLower.includes('landing')) return 'landing-page';
-    if (titleLower.includes('shop') || titleLower.includes('ecommerce') || titleLower.includes('store')) {
-      return 'e-commerce';
-    }
-    if (titleLower.includes('saas')) return 'saas';
-    if (titleLower.includes('portfolio')) return 'portfolio';
-
-    return 'web';
-  }
-
-  private inferStyles(title: string): DesignStyle[] {
-    const styles: DesignStyle[] = [];
-    const titleLower = title.toLowerCase();
-
-    if (titleLower.includes('minimal') || titleLower.includes('clean') || titleLower.includes('simple')) {
-      styles.push('minimalist');
-    }
-    if (titleLower.includes('dark')) styles.push('dark-mode');
-    if (titleLower.includes('gradient') || titleLower.includes('colorful')) styles.push('gradient');
-    if (titleLower.includes('3d') || titleLower.includes('isometric')) styles.push('3d');
-    if (titleLower.includes('glass') || titleLower.includes('blur') || titleLower.includes('transparent')) {
-      styles.push('glassmorphism');
-    }
-    if (titleLower.includes('neumorphism') || titleLower.includes('soft')) styles.push('neumorphism');
-    if (titleLower.includes('illustration') || titleLower.includes('illustrated')) styles.push('illustration');
-    if (titleLower.includes('bento')) styles.push('bento');
-    if (titleLower.includes('brutalist')) styles.push('brutalist');
-    if (titleLower.includes('geometric')) styles.push('geometric');
-    if (titleLower.includes('organic')) styles.push('organic');
-
-    return styles.length > 0 ? styles : ['minimalist'];
-  }
-
-  private extractTags(title: string): string[] {
-    const words = title.toLowerCase().split(/[\s\-_,()[\]|]+/);
-    const stopWords = ['the', 'and', 'for', 'a', 'an', 'in', 'on', 'to', 'with', 'by', 'pinterest', 'design', 'ui', 'ux'];
-    const relevantTags = words.filter(word =>
-      word.length > 2 && !stopWords.includes(word)
-    );
-    return [...new Set(relevantTags)].slice(0, 8);
-  }
 }
@@ -0,0 +1,305 @@
+import * as cheerio from 'cheerio';
+import type { DesignItem, CollectorConfig, DesignCategory, DesignStyle } from '../types/index.js';
+import { BaseCollector } from './base-collector.js';
+
+/**
+ * Collects shipped Android app UIs from Google Play search and listing pages.
+ * Search/category pages only yield package IDs; each listing page is then
+ * fetched for its screenshots, feature graphic, install band and category.
+ */
+export class PlayStoreCollector extends BaseCollector {
+  private locale: { hl: string; gl: string };
+
+  constructor(locale: { hl: string; gl: string } = { hl: 'en', gl: 'US' }) {
+    super('playstore', 'https://play.google.com');
+    this.locale = locale;
+  }
+
+  async collect(config: CollectorConfig): Promise<DesignItem[]> {
+    const items: DesignItem[] = [];
+    const limit = config.limit || 10;
+
+    // Play search and category pages are not paginated; more package IDs come
+    // from additional category URLs rather than further pages
+    const packageIds: string[] = [];
+    for (const url of this.buildUrls(config)) {
+      if (packageIds.length >= limit) break;
+
+      try {
+        const response = await this.fetchWithRetry(url);
+        const html = await response.text();
+        for (const id of this.parseSearchPage(html)) {
+          if (!packageIds.includes(id)) packageIds.push(id);
+        }
+        // Search pages only list package IDs; items come from the listing pages
+        this.metrics?.recordPage(0, url);
+      } catch (error) {
+        if (this.isCancelled()) throw error;
+        this.metrics?.recordPageFailure(error);
+        console.error(`Error fetching ${url}:`, error);
+      }
+    }
+
+    for (const packageId of packageIds.slice(0, limit)) {
+      const item = await this.fetchListing(packageId, config);
+      if (item) items.push(item);
+    }
+
+    return items.slice(0, limit);
+  }
+
+  async search(query: string, config?: Partial<CollectorConfig>): Promise<DesignItem[]> {
+    const items: DesignItem[] = [];
+    const limit = config?.limit || 10;
+
+    try {
+      const response = await this.fetchWithRetry(this.buildSearchUrl(query));
+      const html = await response.text();
+      const packageIds = this.parseSearchPage(html).slice(0, limit);
+      this.metrics?.recordPage(0);
+
+      for (const packageId of packageIds) {
+        const item = await this.fetchListing(packageId, { ...config, searchQuery: query });
+        if (item) items.push(item);
+      }
+    } catch (error) {
+      if (this.isCancelled()) throw error;
+      this.metrics?.recordPageFailure(error);
+      console.error(`Error searching Play Store for "${query}":`, error);
+    }
+
+    return items.slice(0, limit);
+  }
+
+  /**
+   * Extract app package IDs from a search or category page
+   */
+  parseSearchPage(html: string): string[] {
+    const $ = cheerio.load(html);
+    const ids: string[] = [];
+
+    $('a[href*="/store/apps/details?id="]').each((_, element) => {
+      const href = $(element).attr('href') || '';
+      const id = this.extractPackageId(href);
+      if (id && !ids.includes(id)) {
+        ids.push(id);
+      }
+    });
+
+    return ids;
+  }
+
+  /**
+   * Parse a Play listing page into a design item.
+   * Public so saved listing HTML can be parsed without network access.
+   */
+  parseListingPage(html: string, packageId: string, config?: Partial<CollectorConfig>): DesignItem | null {
+    try {
+      const $ = cheerio.load(html);
+
+      const title = $('h1[itemprop="name"], h1').first().text().trim() ||
+                   $('meta[property="og:title"]').attr('content')?.replace(/\s*-\s*Apps on Google Play.*$/i, '') ||
+                   packageId;
+
+      const description = $('[data-g-id="description"], [itemprop="description"]').first().text().trim() ||
+                         $('meta[name="description"]').attr('content') || '';
+
+      const $developer = $('a[href*="/store/apps/dev"]').first();
+      const developer = $developer.text().trim();
+      const developerHref = $developer.attr('href');
+
+      const genreHref = $('a[itemprop="genre"], a[href*="/store/apps/category/"]').first().attr('href') || '';
+      const genreId = genreHref.match(/\/category\/([A-Z_]+)/)?.[1];
+      const genreName = $('a[itemprop="genre"], a[href*="/store/apps/category/"]').first().text().trim();
+
+      const screenshots = this.extractScreenshots($);
+      const featureGraphic = this.extractFeatureGraphic($);
+      const icon = $('img[alt="Icon image"], img[itemprop="image"]').first().attr('src');
+
+      const pageText = $('body').text();
+      const installBand = pageText.match(/([\d.,]+\s?[KMB]?\+)\s*Downloads/i)?.[1]?.replace(/\s/g, '');
+      const reviewsText = pageText.match(/([\d.,]+\s?[KMB]?)\s*reviews/i)?.[1];
+      const rating = parseFloat($('[itemprop="starRating"] [aria-label], div[aria-label*="Rated"]').first().attr('aria-label')?.match(/([\d.]+)/)?.[1] || '') || undefined;
+
+      const imageUrls = [...screenshots];
+      if (featureGraphic && !imageUrls.includes(featureGraphic)) {
+        imageUrls.push(featureGraphic);
+      }
+
+      return {
+        id: this.generateId(),
+        title,
+        description: description.slice(0, 300),
+        source: 'playstore',
+        sourceUrl: `${this.baseUrl}/store/apps/details?id=${packageId}`,
+        imageUrls,
+        thumbnailUrl: featureGraphic || icon || screenshots[0],
+        designer: developer || undefined,
+        designerUrl: developerHref ? (developerHref.startsWith('http') ? developerHref : `${this.baseUrl}${developerHref}`) : undefined,
+        category: this.genreToCategory(genreId, config?.categories),
+        styles: this.inferStyles(`${title} ${description}`),
+        colors: [],
+        tags: [
+          'mobile-android',
+          ...(genreName ? [genreName.toLowerCase()] : []),
+          ...(config?.searchQuery ? [config.searchQuery] : []),
+        ],
+        likes: reviewsText ? this.parseCount(reviewsText) : undefined,
+        views: installBand ? this.parseCount(installBand) : undefined,
+        collectedAt: new Date(),
+        metadata: {
+          platform: 'android',
+          packageId,
+          genreId,
+          genre: genreName || undefined,
+          installBand,
+          rating,
+          featureGraphic,
+          screenshotCount: screenshots.length,
+        },
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Items are built from their listing pages, so there is nothing left to fetch
+   */
+  async enrich(item: DesignItem): Promise<DesignItem> {
+    return item;
+  }
+
+  private async fetchListing(packageId: string, config?: Partial<CollectorConfig>): Promise<DesignItem | null> {
+    const url = `${this.baseUrl}/store/apps/details?id=${encodeURIComponent(packageId)}&hl=${this.locale.hl}&gl=${this.locale.gl}`;
+
+    try {
+      const response = await this.fetchWithRetry(url);
+      const html = await response.text();
+      const item = this.parseListingPage(html, packageId, config);
+      this.metrics?.recordPage(item ? 1 : 0, url);
+      return item;
+    } catch (error) {
+      if (this.isCancelled()) throw error;
+      this.metrics?.recordPageFailure(error);
+      console.error(`Error fetching Play listing ${packageId}:`, error);
+      return null;
+    }
+  }
+
+  private buildSearchUrl(query: string): string {
+    return `${this.baseUrl}/store/search?q=${encodeURIComponent(query)}&c=apps&hl=${this.locale.hl}&gl=${this.locale.gl}`;
+  }
+
+  private buildUrls(config: CollectorConfig): string[] {
+    const urls: string[] = [];
+
+    if (config.searchQuery) {
+      urls.push(this.buildSearchUrl(config.searchQuery));
+    }
+
+    if (config.categories?.length) {
+      for (const category of config.categories) {
+        const playCategory = this.categoryToPlayCategory(category);
+        if (playCategory) {
+          urls.push(`${this.baseUrl}/store/apps/category/${playCategory}?hl=${this.locale.hl}&gl=${this.locale.gl}`);
+        }
+      }
+    }
+
+    // Default: top charts for design-heavy categories
+    if (urls.length === 0) {
+      urls.push(`${this.baseUrl}/store/apps/category/ART_AND_DESIGN?hl=${this.locale.hl}&gl=${this.locale.gl}`);
+      urls.push(`${this.baseUrl}/store/apps/category/PRODUCTIVITY?hl=${this.locale.hl}&gl=${this.locale.gl}`);
+      urls.push(`${this.baseUrl}/store/apps/category/FINANCE?hl=${this.locale.hl}&gl=${this.locale.gl}`);
+    }
+
+    return urls;
+  }
+
+  private categoryToPlayCategory(category: DesignCategory): string | null {
+    const mapping: Record<DesignCategory, string | null> = {
+      'web': null,
+      'mobile-ios': null,
+      'mobile-android': 'ART_AND_DESIGN',
+      'dashboard': 'BUSINESS',
+      'landing-page': null,
+      'e-commerce': 'SHOPPING',
+      'saas': 'PRODUCTIVITY',
+      'portfolio': 'ART_AND_DESIGN',
+      'social': 'SOCIAL',
+      'fintech': 'FINANCE',
+      'healthcare': 'HEALTH_AND_FITNESS',
+      'education': 'EDUCATION',
+    };
+    return mapping[category];
+  }
+
+  private genreToCategory(genreId: string | undefined, preferred?: DesignCategory[]): DesignCategory {
+    if (preferred?.length) return preferred[0];
+
+    const mapping: Record<string, DesignCategory> = {
+      'FINANCE': 'fintech',
+      'MEDICAL': 'healthcare',
+      'HEALTH_AND_FITNESS': 'healthcare',
+      'EDUCATION': 'education',
+      'SOCIAL': 'social',
+      'COMMUNICATION': 'social',
+      'SHOPPING': 'e-commerce',
+      'FOOD_AND_DRINK': 'e-commerce',
+      'BUSINESS': 'saas',
+      'PRODUCTIVITY': 'saas',
+    };
+
+    return (genreId && mapping[genreId]) || 'mobile-android';
+  }
+
+  private extractScreenshots($: cheerio.CheerioAPI): string[] {
+    const screenshots: string[] = [];
+
+    $('img[alt*="creenshot"], [data-screenshot-index] img').each((_, element) => {
+      const $img = $(element);
+      const src = this.largestFromSrcset($img.attr('srcset')) || $img.attr('src') || $img.attr('data-src');
+      if (src && !screenshots.includes(src)) {
+        screenshots.push(src);
+      }
+    });
+
+    return screenshots;
+  }
+
+  private extractFeatureGraphic($: cheerio.CheerioAPI): string | undefined {
+    const $img = $('img[alt*="eature graphic"]').first();
+    return this.largestFromSrcset($img.attr('srcset')) ||
+           $img.attr('src') ||
+           $('meta[property="og:image"]').attr('content') ||
+           undefined;
+  }
+
+  private extractPackageId(href: string): string | null {
+    const match = href.match(/[?&]id=([A-Za-z0-9_.]+)/);
+    return match ? match[1] : null;
+  }
+
+  private parseCount(str: string): number {
+    const cleaned = str.replace(/[^0-9.]/g, '');
+    const upper = str.toUpperCase();
+    const multiplier = upper.includes('B') ? 1000000000 : upper.includes('M') ? 1000000 : upper.includes('K') ? 1000 : 1;
+    return Math.round(parseFloat(cleaned) * multiplier) || 0;
+  }
+
+  private inferStyles(text: string): DesignStyle[] {
+    const styles: DesignStyle[] = [];
+    const textLower = text.toLowerCase();
+
+    if (textLower.includes('minimal') || textLower.includes('clean') || textLower.includes('simple')) {
+      styles.push('minimalist');
+    }
+    if (textLower.includes('dark mode') || textLower.includes('dark theme')) styles.push('dark-mode');
+    if (textLower.includes('material you') || textLower.includes('widget')) styles.push('bento');
+    if (textLower.includes('3d') || textLower.includes('augmented reality')) styles.push('3d');
+    if (textLower.includes('illustrat')) styles.push('illustration');
+
+    return styles.length > 0 ? styles : ['minimalist'];
+  }
+}
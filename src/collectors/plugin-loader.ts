@@ -0,0 +1,49 @@
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { BaseCollector } from './base-collector.js';
+import { CollectorFactory, type CollectorFactoryFn } from './collector-factory.js';
+import type { CollectorPlugin } from './project-config.js';
+
+/**
+ * Import the collector modules listed in the project config and register them
+ * with CollectorFactory. Module paths are resolved relative to `baseDir`, the
+ * config file's directory. Returns the registered source IDs.
+ */
+export async function loadCollectorPlugins(plugins: CollectorPlugin[], baseDir: string): Promise<string[]> {
+  const registered: string[] = [];
+
+  for (const plugin of plugins) {
+    const factory = await importCollectorFactory(plugin, baseDir);
+    CollectorFactory.register(plugin.id, () => factory(plugin.options));
+    registered.push(plugin.id);
+  }
+
+  return registered;
+}
+
+async function importCollectorFactory(plugin: CollectorPlugin, baseDir: string): Promise<CollectorFactoryFn> {
+  // Bare specifiers (npm packages) are imported as-is, paths relative to the config
+  const specifier = plugin.module.startsWith('.') || path.isAbsolute(plugin.module)
+    ? pathToFileURL(path.resolve(baseDir, plugin.module)).href
+    : plugin.module;
+
+  const mod = await import(specifier);
+  const exported = mod[plugin.export];
+
+  if (typeof exported !== 'function') {
+    throw new Error(`Collector module "${plugin.module}" has no function export "${plugin.export}"`);
+  }
+
+  // Either a BaseCollector subclass or a factory function returning a collector
+  const factory: CollectorFactoryFn = exported.prototype instanceof BaseCollector
+    ? (options) => new exported(options)
+    : (options) => exported(options);
+
+  return (options) => {
+    const collector = factory(options);
+    if (typeof collector?.collect !== 'function' || typeof collector?.search !== 'function') {
+      throw new Error(`Collector module "${plugin.module}" did not produce a collector for "${plugin.id}"`);
+    }
+    return collector;
+  };
+}
@@ -0,0 +1,52 @@
+import { EventEmitter } from 'node:events';
+import type { DesignItem, DesignSource, SourceRunMetrics } from '../types/index.js';
+
+/**
+ * Events of a collection run, keyed by event name
+ */
+export interface CollectorEvents {
+  // A source's collector started collecting or searching
+  'source-start': { source: DesignSource };
+  // A listing page or API response was fetched and parsed; the per-page progress signal
+  'page': { source: DesignSource; url?: string; itemsParsed: number };
+  // A source returned an item. Sent once the source has finished, since items are
+  // validated and engagement-scored against the source's whole result
+  'item': { source: DesignSource; item: DesignItem };
+  // A source threw or was cancelled; it contributes no items
+  'source-error': { source: DesignSource; error: unknown; cancelled: boolean };
+  // A source finished, with its run metrics
+  'source-done': { source: DesignSource; items: number; metrics: SourceRunMetrics };
+}
+
+export type CollectorEventName = keyof CollectorEvents;
+
+/**
+ * Typed progress emitter for CollectorFactory runs
+ */
+export class CollectorProgress {
+  private emitter = new EventEmitter();
+
+  on<E extends CollectorEventName>(event: E, listener: (payload: CollectorEvents[E]) => void): this {
+    this.emitter.on(event, listener);
+    return this;
+  }
+
+  once<E extends CollectorEventName>(event: E, listener: (payload: CollectorEvents[E]) => void): this {
+    this.emitter.once(event, listener);
+    return this;
+  }
+
+  off<E extends CollectorEventName>(event: E, listener: (payload: CollectorEvents[E]) => void): this {
+    this.emitter.off(event, listener);
+    return this;
+  }
+
+  emit<E extends CollectorEventName>(event: E, payload: CollectorEvents[E]): void {
+    // A throwing listener must not break the collection run
+    try {
+      this.emitter.emit(event, payload);
+    } catch (error) {
+      console.error(`Error in ${event} listener:`, error);
+    }
+  }
+}
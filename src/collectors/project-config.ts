@@ -0,0 +1,137 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { z } from 'zod';
+import { DesignSourceSchema } from '../types/index.js';
+import { configureHttpCache, getRateLimiter } from '../http/index.js';
+import { configureEngagement, EngagementConfigSchema } from '../analyzers/engagement.js';
+import { configureAssetManager } from '../storage/asset-manager.js';
+import { LocalCollector } from './local-collector.js';
+import { FeedCollector, FeedConfigSchema } from './feed-collector.js';
+import { CollectorFactory } from './collector-factory.js';
+import { loadCollectorPlugins } from './plugin-loader.js';
+
+export const DEFAULT_CONFIG_FILE = 'design-scout.config.json';
+
+export const CollectorPluginSchema = z.object({
+  id: DesignSourceSchema,
+  module: z.string().min(1),
+  export: z.string().default('default'),
+  options: z.record(z.unknown()).optional(),
+});
+
+export type CollectorPlugin = z.infer<typeof CollectorPluginSchema>;
+
+export const RateLimitSchema = z.object({
+  requestsPerSecond: z.number().positive(),
+  burst: z.number().int().min(1),
+}).partial();
+
+export const HttpCacheConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  dir: z.string().optional(),
+  maxAgeMinutes: z.number().min(0).optional(),
+  maxSizeMb: z.number().positive().optional(),
+});
+
+export const AssetCacheConfigSchema = z.object({
+  dir: z.string().optional(),
+  thumbnailWidths: z.array(z.number().int().positive()).optional(),
+  maxFileMb: z.number().positive().optional(),
+  maxTotalMb: z.number().positive().optional(),
+});
+
+export const LocalSourceConfigSchema = z.object({
+  dir: z.string().min(1),
+  indexPath: z.string().optional(),
+  recursive: z.boolean().optional(),
+});
+
+export const ProjectConfigSchema = z.object({
+  collectors: z.array(CollectorPluginSchema).default([]),
+  // Folder scanned by the built-in `local` source
+  local: LocalSourceConfigSchema.optional(),
+  // RSS/Atom feeds polled by the built-in `feeds` source
+  feeds: z.array(FeedConfigSchema).optional(),
+  // Per-source overrides of the built-in rate limits, keyed by source ID
+  rateLimits: z.record(DesignSourceSchema, RateLimitSchema).default({}),
+  httpCache: HttpCacheConfigSchema.optional(),
+  // Local copies of design images and their thumbnails
+  assets: AssetCacheConfigSchema.optional(),
+  // How likes and views are normalized per source and weighted in rankings
+  engagement: EngagementConfigSchema.partial().optional(),
+});
+
+export type ProjectConfig = z.infer<typeof ProjectConfigSchema>;
+
+/**
+ * Read the project config file. Returns null when the file does not exist.
+ */
+export async function readProjectConfig(configPath: string = DEFAULT_CONFIG_FILE): Promise<ProjectConfig | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(configPath, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  const result = ProjectConfigSchema.safeParse(JSON.parse(content));
+  if (!result.success) {
+    const issues = result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ');
+    throw new Error(`Invalid config ${configPath}: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Read the project config once and apply it: rate limits, HTTP and asset cache
+ * settings, engagement weights, the local folder, feeds and collector plugins.
+ * Returns the registered plugin source IDs.
+ */
+export async function applyProjectConfig(configPath: string = DEFAULT_CONFIG_FILE): Promise<string[]> {
+  const config = await readProjectConfig(configPath);
+  if (!config) return [];
+
+  getRateLimiter().configure(config.rateLimits);
+
+  if (config.httpCache) {
+    const { enabled, dir, maxAgeMinutes, maxSizeMb } = config.httpCache;
+    configureHttpCache({
+      enabled,
+      dir,
+      maxAgeMs: maxAgeMinutes !== undefined ? maxAgeMinutes * 60 * 1000 : undefined,
+      maxSizeBytes: maxSizeMb !== undefined ? maxSizeMb * 1024 * 1024 : undefined,
+    });
+  }
+
+  if (config.assets) {
+    const { dir, thumbnailWidths, maxFileMb, maxTotalMb } = config.assets;
+    configureAssetManager({
+      dir,
+      thumbnailWidths,
+      maxFileBytes: maxFileMb !== undefined ? maxFileMb * 1024 * 1024 : undefined,
+      maxTotalBytes: maxTotalMb !== undefined ? maxTotalMb * 1024 * 1024 : undefined,
+    });
+  }
+
+  if (config.engagement) {
+    configureEngagement(config.engagement);
+  }
+
+  // Relative paths are resolved against the config file
+  const baseDir = path.dirname(path.resolve(configPath));
+
+  if (config.local) {
+    const local = {
+      ...config.local,
+      dir: path.resolve(baseDir, config.local.dir),
+    };
+    CollectorFactory.register('local', () => new LocalCollector(local));
+  }
+
+  if (config.feeds?.length) {
+    const feeds = config.feeds;
+    CollectorFactory.register('feeds', () => new FeedCollector({ feeds }));
+  }
+
+  return loadCollectorPlugins(config.collectors, baseDir);
+}
@@ -0,0 +1,184 @@
+import type { DesignSource, SourceRunMetrics } from '../types/index.js';
+import type { CollectorProgress } from './progress.js';
+
+const MAX_ERRORS = 10;
+
+/**
+ * Accumulates a collector's metrics over one collect/search call, reporting
+ * fetched pages to the progress emitter when there is one
+ */
+export class RunMetricsRecorder {
+  private metrics: SourceRunMetrics;
+  private startedAt = Date.now();
+  private progress?: CollectorProgress;
+
+  constructor(source: DesignSource, progress?: CollectorProgress) {
+    this.progress = progress;
+    this.metrics = {
+      source,
+      pagesFetched: 0,
+      pagesFailed: 0,
+      httpStatuses: {},
+      selectorMatches: {},
+      itemsParsed: 0,
+      itemsDropped: 0,
+      itemsReturned: 0,
+      structuredFallbacks: 0,
+      errors: [],
+      durationMs: 0,
+    };
+  }
+
+  recordStatus(status: number | 'robots'): void {
+    const key = String(status);
+    this.metrics.httpStatuses[key] = (this.metrics.httpStatuses[key] || 0) + 1;
+  }
+
+  recordPage(itemsParsed: number, url?: string): void {
+    this.metrics.pagesFetched++;
+    this.metrics.itemsParsed += itemsParsed;
+    this.progress?.emit('page', { source: this.metrics.source, url, itemsParsed });
+  }
+
+  recordPageFailure(error: unknown): void {
+    this.metrics.pagesFailed++;
+    this.recordError(error);
+  }
+
+  recordSelector(selector: string, matched: number): void {
+    this.metrics.selectorMatches[selector] = (this.metrics.selectorMatches[selector] || 0) + matched;
+  }
+
+  recordDropped(count: number): void {
+    this.metrics.itemsDropped += count;
+  }
+
+  recordKnown(count: number): void {
+    this.metrics.itemsKnown = (this.metrics.itemsKnown || 0) + count;
+  }
+
+  recordFallback(): void {
+    this.metrics.structuredFallbacks++;
+  }
+
+  recordError(error: unknown): void {
+    if (this.metrics.errors.length >= MAX_ERRORS) return;
+    this.metrics.errors.push(error instanceof Error ? error.message : String(error));
+  }
+
+  finish(itemsReturned: number): SourceRunMetrics {
+    return {
+      ...this.metrics,
+      itemsReturned,
+      durationMs: Date.now() - this.startedAt,
+    };
+  }
+}
+
+export type SourceHealthStatus = 'ok' | 'degraded' | 'failing';
+
+export interface SourceHealth {
+  source: DesignSource;
+  status: SourceHealthStatus;
+  lastRunAt: Date;
+  // Items parsed per fetched page, latest run vs. the median of earlier runs
+  yieldPerPage: number;
+  baselineYield?: number;
+  problems: string[];
+}
+
+export interface DiagnoseOptions {
+  // How many earlier runs form the baseline
+  baselineRuns?: number;
+  // Relative yield drop (0-1) that marks a source as degraded
+  dropThreshold?: number;
+}
+
+/**
+ * Flag sources whose latest run yielded nothing or far less than earlier runs.
+ * `runs` is the store history, newest first.
+ */
+export function diagnoseSources(
+  runs: Array<{ collectedAt: Date | string; sourceMetrics?: SourceRunMetrics[] }>,
+  options: DiagnoseOptions = {}
+): SourceHealth[] {
+  const baselineRuns = options.baselineRuns ?? 5;
+  const dropThreshold = options.dropThreshold ?? 0.5;
+
+  const bySource = new Map<DesignSource, Array<{ at: Date; metrics: SourceRunMetrics }>>();
+  for (const run of runs) {
+    for (const metrics of run.sourceMetrics || []) {
+      const entries = bySource.get(metrics.source) || [];
+      entries.push({ at: new Date(run.collectedAt), metrics });
+      bySource.set(metrics.source, entries);
+    }
+  }
+
+  const report: SourceHealth[] = [];
+  for (const [source, entries] of bySource) {
+    const [latest, ...earlier] = entries;
+    const baseline = earlier.slice(0, baselineRuns).filter(e => itemsFound(e.metrics) > 0);
+    const problems: string[] = [];
+    let status: SourceHealthStatus = 'ok';
+
+    const yieldPerPage = pageYield(latest.metrics);
+    const baselineYield = baseline.length ? median(baseline.map(e => pageYield(e.metrics))) : undefined;
+
+    if (itemsFound(latest.metrics) === 0) {
+      status = 'failing';
+      problems.push(...explainZeroYield(latest.metrics));
+    } else if (baselineYield && yieldPerPage < baselineYield * (1 - dropThreshold)) {
+      status = 'degraded';
+      problems.push(
+        `Yield dropped to ${yieldPerPage.toFixed(1)} items/page from a baseline of ${baselineYield.toFixed(1)}`
+      );
+    }
+
+    // Selectors that used to match but no longer do are the usual sign of a markup change
+    for (const selector of Object.keys(latest.metrics.selectorMatches)) {
+      const matchedBefore = baseline.some(e => (e.metrics.selectorMatches[selector] || 0) > 0);
+      if (matchedBefore && latest.metrics.selectorMatches[selector] === 0) {
+        problems.push(`Selector "${selector}" matched before but matched nothing in the latest run`);
+        if (status === 'ok') status = 'degraded';
+      }
+    }
+
+    report.push({ source, status, lastRunAt: latest.at, yieldPerPage, baselineYield, problems });
+  }
+
+  return report.sort((a, b) => a.source.localeCompare(b.source));
+}
+
+function explainZeroYield(metrics: SourceRunMetrics): string[] {
+  const problems: string[] = ['Latest run returned no items'];
+  const statuses = Object.entries(metrics.httpStatuses)
+    .map(([status, count]) => `${status}×${count}`)
+    .join(', ');
+
+  if (metrics.pagesFetched === 0) {
+    problems.push(`No pages could be fetched${statuses ? ` (HTTP ${statuses})` : ''}`);
+  } else if (Object.values(metrics.selectorMatches).every(count => count === 0)) {
+    problems.push('Pages were fetched but no selector matched: the site markup has probably changed');
+  } else if (metrics.itemsDropped > 0) {
+    problems.push(`${metrics.itemsDropped} matched elements were dropped for missing required fields`);
+  }
+  if (metrics.errors.length) {
+    problems.push(`Errors: ${metrics.errors.slice(0, 3).join('; ')}`);
+  }
+  return problems;
+}
+
+// Items already in the store still show the source works; incremental runs leave them out of itemsReturned
+function itemsFound(metrics: SourceRunMetrics): number {
+  return metrics.itemsReturned + (metrics.itemsKnown ?? 0);
+}
+
+function pageYield(metrics: SourceRunMetrics): number {
+  return metrics.pagesFetched ? metrics.itemsParsed / metrics.pagesFetched : 0;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
@@ -0,0 +1,136 @@
+import type { CollectorConfig, DesignItem, DesignSource } from '../types/index.js';
+import { compareEngagement } from '../analyzers/engagement.js';
+
+/**
+ * How many items to ask each source for. Only `weighted` departs from an even
+ * split; a weight of 0 leaves the source out.
+ */
+export function fetchLimits(sources: DesignSource[], config: Partial<CollectorConfig>): Map<DesignSource, number> {
+  const limit = config.limit || 30;
+
+  if (config.sampling !== 'weighted') {
+    const perSource = Math.ceil(limit / sources.length);
+    return new Map(sources.map(source => [source, perSource]));
+  }
+
+  const weights = sourceWeights(sources, config);
+  const total = [...weights.values()].reduce((sum, w) => sum + w, 0);
+  return new Map(sources.map(source => {
+    const weight = weights.get(source)!;
+    return [source, total && weight ? Math.ceil((limit * weight) / total) : 0];
+  }));
+}
+
+/**
+ * Pick `config.limit` items with the configured sampling strategy. Within each
+ * group the highest engagement scores are kept; the result is ranked by engagement.
+ */
+export function sampleItems(items: DesignItem[], config: Partial<CollectorConfig>): DesignItem[] {
+  const limit = config.limit || 30;
+  const sources = config.sources?.length ? config.sources : [...new Set(items.map(item => item.source))];
+
+  let sampled: DesignItem[];
+  switch (config.sampling) {
+    case 'proportional': {
+      const groups = groupBy(items, item => item.source);
+      sampled = allocate(groups, new Map([...groups].map(([source, group]) => [source, group.length])), limit);
+      break;
+    }
+    case 'equal-per-source': {
+      const groups = groupBy(items, item => item.source);
+      sampled = allocate(groups, new Map([...groups.keys()].map(source => [source, 1])), limit);
+      break;
+    }
+    case 'weighted': {
+      const groups = groupBy(items, item => item.source);
+      sampled = allocate(groups, sourceWeights(sources, config), limit);
+      break;
+    }
+    case 'stratified-by-category': {
+      const groups = groupBy(items, item => item.category);
+      // Requested categories with no items simply get nothing
+      const categories = config.categories?.length ? config.categories : [...groups.keys()];
+      const strata = new Map(categories.map(category => [category, interleaveBySource(groups.get(category) || [])]));
+      sampled = allocate(strata, new Map(categories.map(category => [category, 1])), limit, false);
+      break;
+    }
+    default:
+      sampled = [...items].sort(compareEngagement).slice(0, limit);
+  }
+
+  return sampled.sort(compareEngagement);
+}
+
+function sourceWeights(sources: DesignSource[], config: Partial<CollectorConfig>): Map<DesignSource, number> {
+  return new Map(sources.map(source => [source, Math.max(0, config.sourceWeights?.[source] ?? 1)]));
+}
+
+function groupBy<K>(items: DesignItem[], key: (item: DesignItem) => K): Map<K, DesignItem[]> {
+  const groups = new Map<K, DesignItem[]>();
+  for (const item of items) {
+    const group = groups.get(key(item)) || [];
+    group.push(item);
+    groups.set(key(item), group);
+  }
+  return groups;
+}
+
+/**
+ * Sources take turns, each contributing its next best item, so the head of a
+ * stratum is spread across sources
+ */
+function interleaveBySource(items: DesignItem[]): DesignItem[] {
+  const queues = [...groupBy(items, item => item.source).values()].map(group => [...group].sort(compareEngagement));
+  const interleaved: DesignItem[] = [];
+  for (let i = 0; queues.some(queue => i < queue.length); i++) {
+    for (const queue of queues) {
+      if (i < queue.length) interleaved.push(queue[i]);
+    }
+  }
+  return interleaved;
+}
+
+/**
+ * Split `limit` over the groups in proportion to their weights (largest
+ * remainder), capped at each group's size. What a small group cannot use goes
+ * to the others in another round.
+ */
+function allocate<K>(
+  groups: Map<K, DesignItem[]>,
+  weights: Map<K, number>,
+  limit: number,
+  rankWithinGroup = true
+): DesignItem[] {
+  const quotas = new Map<K, number>([...groups.keys()].map(key => [key, 0]));
+  let remaining = Math.min(limit, [...groups.values()].reduce((sum, group) => sum + group.length, 0));
+
+  while (remaining > 0) {
+    const open = [...groups.entries()]
+      .filter(([key, group]) => (weights.get(key) ?? 0) > 0 && quotas.get(key)! < group.length)
+      .map(([key]) => key);
+    if (!open.length) break;
+
+    const totalWeight = open.reduce((sum, key) => sum + weights.get(key)!, 0);
+    const shares = open.map(key => {
+      const exact = (remaining * weights.get(key)!) / totalWeight;
+      return { key, whole: Math.floor(exact), fraction: exact - Math.floor(exact) };
+    });
+
+    // Whole shares first, then one each to the largest remainders
+    let handedOut = 0;
+    const grant = (key: K, count: number) => {
+      const room = groups.get(key)!.length - quotas.get(key)!;
+      const granted = Math.min(count, room, remaining - handedOut);
+      quotas.set(key, quotas.get(key)! + granted);
+      handedOut += granted;
+    };
+    shares.forEach(({ key, whole }) => grant(key, whole));
+    shares.sort((a, b) => b.fraction - a.fraction).forEach(({ key }) => grant(key, 1));
+
+    if (handedOut === 0) break;
+    remaining -= handedOut;
+  }
+
+  return [...groups.entries()].flatMap(([key, group]) =>
+    (rankWithinGroup ? [...group].sort(compareEngagement) : group).slice(0, quotas.get(key)));
+}
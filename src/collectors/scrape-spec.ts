@@ -0,0 +1,462 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import * as cheerio from 'cheerio';
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+import { DesignCategorySchema, DesignSourceSchema, DesignStyleSchema } from '../types/index.js';
+
+export const NormalizerSchema = z.union([
+  z.enum([
+    'trim',
+    'lowercase',
+    'collapse-whitespace',
+    'absolute',
+    'strip-query',
+    'srcset-largest',
+    'srcset-first',
+    'hex-colors',
+  ]),
+  z.object({ replace: z.string(), with: z.string().default(''), flags: z.string().default('') }),
+  z.object({ match: z.string(), group: z.number().int().min(0).default(1), flags: z.string().default('') }),
+  z.object({ exclude: z.string(), flags: z.string().default('') }),
+  z.object({ split: z.string() }),
+  z.object({ prefix: z.string() }),
+  z.object({ truncate: z.number().int().positive() }),
+]);
+
+export type Normalizer = z.infer<typeof NormalizerSchema>;
+
+export const ExtractorSchema = z.object({
+  // Relative to the scope element; omitted means the scope element itself
+  selector: z.string().optional(),
+  // item: the list element, card: its closest `list.card` ancestor, parent: its parent, page: the document
+  scope: z.enum(['item', 'card', 'parent', 'page']).default('item'),
+  // Attribute fallbacks, tried in order; "text" is the text content, "html" the outer HTML
+  attr: z.union([z.string(), z.array(z.string())]).default('text'),
+  // Collect every match instead of the first
+  all: z.boolean().default(false),
+  normalize: z.array(NormalizerSchema).default([]),
+});
+
+export type Extractor = z.infer<typeof ExtractorSchema>;
+
+// A single extractor or a fallback chain, tried until one yields a value
+export const FieldSpecSchema = z.union([ExtractorSchema, z.array(ExtractorSchema)]);
+
+export type FieldSpec = z.infer<typeof FieldSpecSchema>;
+
+export const ListSpecSchema = z.object({
+  selector: z.string().min(1),
+  // Closest ancestor used by `scope: card` extractors
+  card: z.string().optional(),
+  // Per-list field overrides, merged over the spec's fields
+  fields: z.record(FieldSpecSchema).default({}),
+  templates: z.record(z.string()).default({}),
+  metadata: z.record(z.unknown()).default({}),
+});
+
+export type ListSpec = z.infer<typeof ListSpecSchema>;
+
+const KeywordRulesSchema = <T extends z.ZodTypeAny>(value: T) => z.object({
+  // Fields whose text is matched against the keywords
+  from: z.array(z.string()).default(['title']),
+  rules: z.array(z.object({ value, keywords: z.array(z.string()).min(1) })),
+});
+
+export const ScrapeSpecSchema = z.object({
+  source: DesignSourceSchema,
+  version: z.number().int().min(1),
+  updatedAt: z.string().optional(),
+  // Lists are tried in order; items are de-duplicated by sourceUrl
+  lists: z.array(ListSpecSchema).min(1),
+  maxItems: z.number().int().positive().optional(),
+  fields: z.record(FieldSpecSchema),
+  // Items missing any of these fields are dropped
+  required: z.array(z.string()).default(['sourceUrl']),
+  // Fallback values when a field is empty; `{field}` placeholders are filled in
+  defaults: z.record(z.string()).default({}),
+  // Values that always replace the extracted field; `{field}` placeholders are filled in
+  templates: z.record(z.string()).default({}),
+  category: KeywordRulesSchema(DesignCategorySchema).extend({
+    default: DesignCategorySchema.default('web'),
+  }).optional(),
+  styles: KeywordRulesSchema(DesignStyleSchema).extend({
+    default: z.array(DesignStyleSchema).default(['minimalist']),
+  }).optional(),
+  // Split these fields into word tags
+  wordTags: z.object({
+    from: z.array(z.string()).default(['title']),
+    stopWords: z.array(z.string()).default([]),
+    minLength: z.number().int().default(3),
+    max: z.number().int().positive().default(10),
+  }).optional(),
+  metadata: z.record(z.unknown()).default({}),
+  // Extracted fields copied into item metadata
+  metadataFields: z.array(z.string()).default([]),
+  // Fields read from the item's detail page during enrichment
+  detail: z.object({ fields: z.record(FieldSpecSchema) }).optional(),
+});
+
+export type ScrapeSpec = z.infer<typeof ScrapeSpecSchema>;
+
+// Extracted values, keyed by field name
+export type SpecFields = Record<string, string[]>;
+
+export interface SpecRecord {
+  fields: SpecFields;
+  list: ListSpec;
+  $el: cheerio.Cheerio<any>;
+}
+
+// Filled in by runScrapeSpec for run metrics
+export interface SpecRunStats {
+  // Elements matched per list selector
+  matches: Record<string, number>;
+  // Elements dropped for missing required fields
+  dropped: number;
+}
+
+const SPEC_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+// Built-in specs live in <package root>/specs, two levels up from src/collectors or dist/collectors
+const BUILTIN_SPEC_DIR = fileURLToPath(new URL('../../specs/', import.meta.url));
+
+/**
+ * Parse and validate a spec file's content (JSON or YAML)
+ */
+export function parseScrapeSpec(content: string, fileName: string): ScrapeSpec {
+  const raw = fileName.endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+  const result = ScrapeSpecSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ');
+    throw new Error(`Invalid scrape spec ${fileName}: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Run a spec's lists against a page and return the extracted fields per element
+ */
+export function runScrapeSpec(
+  $: cheerio.CheerioAPI,
+  spec: ScrapeSpec,
+  baseUrl: string,
+  stats?: SpecRunStats
+): SpecRecord[] {
+  const records: SpecRecord[] = [];
+  const seen = new Set<string>();
+
+  for (const list of spec.lists) {
+    const fields = { ...spec.fields, ...list.fields };
+    const $matches = $(list.selector);
+    if (stats) stats.matches[list.selector] = (stats.matches[list.selector] || 0) + $matches.length;
+
+    $matches.each((_, element) => {
+      if (spec.maxItems && records.length >= spec.maxItems) return false;
+
+      const $el = $(element);
+      const values: SpecFields = {};
+      for (const [name, field] of Object.entries(fields)) {
+        values[name] = extractField($, $el, field, list, baseUrl);
+      }
+
+      const url = values.sourceUrl?.[0];
+      if (url && seen.has(url)) return;
+      if (spec.required.some(name => !values[name]?.length)) {
+        if (stats) stats.dropped++;
+        return;
+      }
+      if (url) seen.add(url);
+
+      records.push({ fields: values, list, $el });
+    });
+  }
+
+  return records;
+}
+
+/**
+ * Run field extractors against a whole page (detail pages)
+ */
+export function extractPageFields(
+  $: cheerio.CheerioAPI,
+  fields: Record<string, FieldSpec>,
+  baseUrl: string
+): SpecFields {
+  const $root = $.root();
+  const list: ListSpec = { selector: ':root', fields: {}, templates: {}, metadata: {} };
+  const values: SpecFields = {};
+  for (const [name, field] of Object.entries(fields)) {
+    values[name] = extractField($, $root, field, list, baseUrl);
+  }
+  return values;
+}
+
+export function extractField(
+  $: cheerio.CheerioAPI,
+  $el: cheerio.Cheerio<any>,
+  field: FieldSpec,
+  list: ListSpec,
+  baseUrl: string
+): string[] {
+  for (const extractor of Array.isArray(field) ? field : [field]) {
+    const values = runExtractor($, $el, extractor, list, baseUrl);
+    if (values.length) return values;
+  }
+  return [];
+}
+
+function runExtractor(
+  $: cheerio.CheerioAPI,
+  $el: cheerio.Cheerio<any>,
+  extractor: Extractor,
+  list: ListSpec,
+  baseUrl: string
+): string[] {
+  let $scope: cheerio.Cheerio<any> = $el;
+  if (extractor.scope === 'parent') {
+    $scope = $el.parent();
+  } else if (extractor.scope === 'card') {
+    const $card = list.card ? $el.closest(list.card) : $el;
+    $scope = $card.length ? $card : $el.parent();
+  } else if (extractor.scope === 'page') {
+    $scope = $.root();
+  }
+
+  const $matches = extractor.selector ? $scope.find(extractor.selector) : $scope;
+  const elements = extractor.all ? $matches.toArray() : $matches.toArray().slice(0, 1);
+  const attrs = Array.isArray(extractor.attr) ? extractor.attr : [extractor.attr];
+
+  let values: string[] = [];
+  for (const element of elements) {
+    const $match = $(element);
+    for (const attr of attrs) {
+      const value = attr === 'text' ? $match.text().trim()
+        : attr === 'html' ? $.html($match)
+        : $match.attr(attr)?.trim();
+      if (value) {
+        values.push(value);
+        break;
+      }
+    }
+  }
+
+  for (const normalizer of extractor.normalize) {
+    values = applyNormalizer(values, normalizer, baseUrl);
+  }
+
+  return [...new Set(values.filter(Boolean))];
+}
+
+function applyNormalizer(values: string[], normalizer: Normalizer, baseUrl: string): string[] {
+  if (typeof normalizer === 'string') {
+    switch (normalizer) {
+      case 'trim':
+        return values.map(v => v.trim());
+      case 'lowercase':
+        return values.map(v => v.toLowerCase());
+      case 'collapse-whitespace':
+        return values.map(v => v.replace(/\s+/g, ' ').trim());
+      case 'absolute':
+        return values.map(v => toAbsolute(v, baseUrl));
+      case 'strip-query':
+        return values.map(v => v.split('?')[0]);
+      case 'srcset-largest':
+        return values.map(v => srcsetCandidates(v).pop() || v);
+      case 'srcset-first':
+        return values.map(v => srcsetCandidates(v)[0] || v);
+      case 'hex-colors':
+        return [...new Set(values.flatMap(v => v.match(/#([0-9A-Fa-f]{6}|[0-9A-Fa-f]{3})\b/g) || []))].slice(0, 10);
+    }
+  }
+
+  if ('replace' in normalizer) {
+    const pattern = new RegExp(normalizer.replace, normalizer.flags);
+    return values.map(v => v.replace(pattern, normalizer.with));
+  }
+  if ('match' in normalizer) {
+    const pattern = new RegExp(normalizer.match, normalizer.flags);
+    return values
+      .map(v => v.match(pattern)?.[normalizer.group])
+      .filter((v): v is string => v !== undefined);
+  }
+  if ('exclude' in normalizer) {
+    const pattern = new RegExp(normalizer.exclude, normalizer.flags);
+    return values.filter(v => !pattern.test(v));
+  }
+  if ('split' in normalizer) {
+    return values.flatMap(v => v.split(normalizer.split).map(part => part.trim()));
+  }
+  if ('prefix' in normalizer) {
+    return values.map(v => `${normalizer.prefix}${v}`);
+  }
+  return values.map(v => v.slice(0, normalizer.truncate));
+}
+
+/**
+ * Parse display counts such as "1,234", "1.2k" or "3M"
+ */
+export function parseSpecNumber(text?: string): number | undefined {
+  if (!text) return undefined;
+  const match = text.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*([kKmM])?/);
+  if (!match) return undefined;
+  const multiplier = match[2] ? (match[2].toLowerCase() === 'k' ? 1000 : 1000000) : 1;
+  return Math.round(parseFloat(match[1]) * multiplier);
+}
+
+function srcsetCandidates(srcset: string): string[] {
+  return srcset.split(',').map(entry => entry.trim().split(/\s+/)[0]).filter(Boolean);
+}
+
+function toAbsolute(href: string, baseUrl: string): string {
+  if (href.startsWith('data:')) return href;
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return href;
+  }
+}
+
+export interface ScrapeSpecInfo {
+  source: string;
+  version: number;
+  origin: 'builtin' | 'override';
+  path: string;
+}
+
+export interface ScrapeSpecOptions {
+  builtinDir?: string;
+  // User overrides, e.g. data/specs/dribbble.yaml
+  overrideDir?: string;
+}
+
+/**
+ * Loads scrape specs, preferring a user override from the data dir when its
+ * version is at least the built-in one.
+ */
+export class ScrapeSpecRegistry {
+  private builtinDir: string;
+  private overrideDir: string;
+  private cache: Map<string, { spec: ScrapeSpec; info: ScrapeSpecInfo }> = new Map();
+
+  constructor(options: ScrapeSpecOptions = {}) {
+    this.builtinDir = options.builtinDir || BUILTIN_SPEC_DIR;
+    this.overrideDir = options.overrideDir || './data/specs';
+  }
+
+  async get(source: string): Promise<ScrapeSpec> {
+    const entry = await this.resolve(source);
+    if (!entry) {
+      throw new Error(`No scrape spec for source "${source}" (looked in ${this.builtinDir} and ${this.overrideDir})`);
+    }
+    return entry.spec;
+  }
+
+  /**
+   * Like get(), but returns null when the source has no spec
+   */
+  async find(source: string): Promise<ScrapeSpec | null> {
+    return (await this.resolve(source))?.spec ?? null;
+  }
+
+  /**
+   * Every resolvable spec, with its version and where it was loaded from
+   */
+  async list(): Promise<ScrapeSpecInfo[]> {
+    const sources = new Set<string>();
+    for (const dir of [this.builtinDir, this.overrideDir]) {
+      for (const file of await this.readDir(dir)) {
+        const ext = path.extname(file);
+        if (SPEC_EXTENSIONS.includes(ext)) sources.add(path.basename(file, ext));
+      }
+    }
+
+    const infos: ScrapeSpecInfo[] = [];
+    for (const source of [...sources].sort()) {
+      const entry = await this.resolve(source);
+      if (entry) infos.push(entry.info);
+    }
+    return infos;
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+
+  private async resolve(source: string): Promise<{ spec: ScrapeSpec; info: ScrapeSpecInfo } | null> {
+    const cached = this.cache.get(source);
+    if (cached) return cached;
+
+    const builtin = await this.load(this.builtinDir, source, 'builtin');
+    let override: { spec: ScrapeSpec; info: ScrapeSpecInfo } | null = null;
+    try {
+      override = await this.load(this.overrideDir, source, 'override');
+    } catch (error) {
+      // A broken override must not take the collector down
+      console.warn(`Ignoring scrape spec override for ${source}:`, error);
+    }
+
+    let entry = builtin;
+    if (override && (!builtin || override.spec.version >= builtin.spec.version)) {
+      entry = override;
+    } else if (override && builtin) {
+      console.warn(
+        `Ignoring scrape spec override ${override.info.path} (v${override.spec.version}); ` +
+        `built-in spec is newer (v${builtin.spec.version})`
+      );
+    }
+
+    if (entry) this.cache.set(source, entry);
+    return entry;
+  }
+
+  private async load(
+    dir: string,
+    source: string,
+    origin: ScrapeSpecInfo['origin']
+  ): Promise<{ spec: ScrapeSpec; info: ScrapeSpecInfo } | null> {
+    for (const ext of SPEC_EXTENSIONS) {
+      const filePath = path.join(dir, `${source}${ext}`);
+      let content: string;
+      try {
+        content = await fs.readFile(filePath, 'utf-8');
+      } catch {
+        continue;
+      }
+
+      const spec = parseScrapeSpec(content, filePath);
+      if (spec.source !== source) {
+        throw new Error(`Scrape spec ${filePath} declares source "${spec.source}"`);
+      }
+      return { spec, info: { source, version: spec.version, origin, path: filePath } };
+    }
+    return null;
+  }
+
+  private async readDir(dir: string): Promise<string[]> {
+    try {
+      return await fs.readdir(dir);
+    } catch {
+      return [];
+    }
+  }
+}
+
+// Singleton instance
+let specRegistryInstance: ScrapeSpecRegistry | null = null;
+
+/**
+ * Configure where scrape spec overrides are read from
+ */
+export function configureScrapeSpecs(options: ScrapeSpecOptions = {}): ScrapeSpecRegistry {
+  specRegistryInstance = new ScrapeSpecRegistry(options);
+  return specRegistryInstance;
+}
+
+export function getScrapeSpecs(): ScrapeSpecRegistry {
+  if (!specRegistryInstance) {
+    specRegistryInstance = new ScrapeSpecRegistry();
+  }
+  return specRegistryInstance;
+}
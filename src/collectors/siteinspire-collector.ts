@@ -0,0 +1,166 @@
+import type { DesignItem, CollectorConfig, DesignCategory, DesignStyle } from '../types/index.js';
+import { BaseCollector } from './base-collector.js';
+import type { SpecRecord } from './scrape-spec.js';
+
+// SiteInspire's own style taxonomy, keyed by URL slug
+const SITEINSPIRE_STYLES: Record<string, DesignStyle> = {
+  'minimal': 'minimalist',
+  'clean': 'minimalist',
+  'flat': 'minimalist',
+  'unusual': 'brutalist',
+  'experimental': 'brutalist',
+  'dark': 'dark-mode',
+  'colourful': 'gradient',
+  'illustrative': 'illustration',
+  'fun': 'illustration',
+  'typographic': 'typography-focused',
+  'editorial': 'typography-focused',
+  'grid': 'bento',
+  'geometric': 'geometric',
+  'retro': 'geometric',
+  'photographic': 'organic',
+  'interactive': '3d',
+};
+
+// SiteInspire's site type taxonomy, keyed by URL slug
+const SITEINSPIRE_TYPES: Record<string, DesignCategory> = {
+  'e-commerce': 'e-commerce',
+  'shop': 'e-commerce',
+  'portfolio': 'portfolio',
+  'personal': 'portfolio',
+  'agency': 'portfolio',
+  'single-page': 'landing-page',
+  'startup': 'landing-page',
+  'software': 'saas',
+  'web-app': 'saas',
+  'app': 'mobile-ios',
+  'community': 'social',
+  'blog': 'web',
+  'magazine': 'web',
+  'finance': 'fintech',
+  'health': 'healthcare',
+  'education': 'education',
+};
+
+export class SiteInspireCollector extends BaseCollector {
+  constructor() {
+    super('siteinspire', 'https://www.siteinspire.com');
+  }
+
+  async collect(config: CollectorConfig): Promise<DesignItem[]> {
+    const spec = await this.loadScrapeSpec();
+
+    return this.paginate({
+      urls: this.buildEndpoints(config),
+      limit: config.limit || 20,
+      maxPages: config.maxPages,
+      parsePage: (html) => ({ items: this.parseWithSpec(html, spec, config) }),
+    });
+  }
+
+  async search(query: string, config?: Partial<CollectorConfig>): Promise<DesignItem[]> {
+    const searchUrl = `${this.baseUrl}/websites?search=${encodeURIComponent(query)}`;
+    const searchConfig = { ...config, searchQuery: query } as CollectorConfig;
+    const spec = await this.loadScrapeSpec();
+
+    return this.paginate({
+      urls: [searchUrl],
+      limit: config?.limit || 20,
+      maxPages: config?.maxPages,
+      parsePage: (html) => ({ items: this.parseWithSpec(html, spec, searchConfig) }),
+    });
+  }
+
+  private buildEndpoints(config: CollectorConfig): string[] {
+    const endpoints: string[] = [];
+
+    if (config.categories?.length) {
+      for (const category of config.categories) {
+        const slug = this.categoryToType(category);
+        if (slug) {
+          endpoints.push(`${this.baseUrl}/websites?types=${slug}`);
+        }
+      }
+    }
+
+    if (config.styles?.length) {
+      for (const style of config.styles) {
+        const slug = this.styleToSlug(style);
+        if (slug) {
+          endpoints.push(`${this.baseUrl}/websites?styles=${slug}`);
+        }
+      }
+    }
+
+    if (!endpoints.length) {
+      endpoints.push(`${this.baseUrl}/websites`);
+    }
+
+    return endpoints;
+  }
+
+  private categoryToType(category: DesignCategory): string | null {
+    const entry = Object.entries(SITEINSPIRE_TYPES).find(([, mapped]) => mapped === category);
+    return entry ? entry[0] : null;
+  }
+
+  private styleToSlug(style: DesignStyle): string | null {
+    const entry = Object.entries(SITEINSPIRE_STYLES).find(([, mapped]) => mapped === style);
+    return entry ? entry[0] : null;
+  }
+
+  /**
+   * Taxonomy links encode the slug in their query string or path
+   */
+  protected refineSpecItem(item: DesignItem, record: SpecRecord, config?: Partial<CollectorConfig>): DesignItem {
+    const styleSlugs: string[] = [];
+    const typeSlugs: string[] = [];
+    const tags: string[] = [];
+    const $links = record.$el.find('a[href*="styles"], a[href*="types"], a[href*="subjects"], .categories a');
+    $links.each((index) => {
+      const $tag = $links.eq(index);
+      const tagHref = $tag.attr('href') || '';
+      const slug = this.slugFromHref(tagHref) || $tag.text().trim().toLowerCase().replace(/\s+/g, '-');
+      if (!slug) return;
+
+      if (tagHref.includes('styles')) styleSlugs.push(slug);
+      else if (tagHref.includes('types')) typeSlugs.push(slug);
+      tags.push(slug);
+    });
+
+    return {
+      ...item,
+      category: config?.categories?.[0] || this.mapTypes(typeSlugs),
+      styles: this.mapStyles(styleSlugs),
+      tags: [...new Set([...tags, ...item.tags])],
+      metadata: {
+        ...item.metadata,
+        siteinspireStyles: styleSlugs,
+        siteinspireTypes: typeSlugs,
+      },
+    };
+  }
+
+  private slugFromHref(href: string): string | null {
+    const queryMatch = href.match(/(?:styles|types|subjects)=([a-z0-9-]+)/i);
+    if (queryMatch) return queryMatch[1].toLowerCase();
+
+    const pathMatch = href.match(/\/(?:styles|types|subjects)\/([a-z0-9-]+)/i);
+    return pathMatch ? pathMatch[1].toLowerCase() : null;
+  }
+
+  private mapStyles(slugs: string[]): DesignStyle[] {
+    const styles = slugs
+      .map(slug => SITEINSPIRE_STYLES[slug])
+      .filter((style): style is DesignStyle => Boolean(style));
+    return styles.length ? [...new Set(styles)] : ['minimalist'];
+  }
+
+  private mapTypes(slugs: string[]): DesignCategory {
+    for (const slug of slugs) {
+      const category = SITEINSPIRE_TYPES[slug];
+      if (category) return category;
+    }
+    return 'web';
+  }
+}
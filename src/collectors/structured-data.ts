@@ -0,0 +1,240 @@
+import * as cheerio from 'cheerio';
+
+/**
+ * Machine-readable data embedded in a page, independent of its CSS.
+ */
+export interface StructuredData {
+  jsonLd: unknown[];
+  // OpenGraph / Twitter / article meta, keyed by property or name
+  meta: Record<string, string[]>;
+  // Hydration blobs such as __NEXT_DATA__ and Pinterest's __PWS_DATA__, keyed by script id
+  hydration: Record<string, unknown>;
+}
+
+/**
+ * A design found in structured data, before it becomes a DesignItem
+ */
+export interface StructuredCandidate {
+  title: string;
+  url: string;
+  imageUrls: string[];
+  description?: string;
+  designer?: string;
+  designerUrl?: string;
+  tags?: string[];
+  publishedAt?: string;
+  likes?: number;
+}
+
+const HYDRATION_SCRIPT_IDS = ['__NEXT_DATA__', '__PWS_DATA__', '__NUXT_DATA__', 'initial-state'];
+
+const META_PREFIXES = ['og:', 'twitter:', 'article:'];
+
+// Hydration trees can be huge; stop walking past this depth
+const MAX_WALK_DEPTH = 40;
+
+export function extractStructuredData(html: string): StructuredData {
+  const $ = cheerio.load(html);
+  const data: StructuredData = { jsonLd: [], meta: {}, hydration: {} };
+
+  $('script[type="application/ld+json"]').each((_, el) => {
+    const parsed = parseJson($(el).html());
+    if (parsed !== undefined) data.jsonLd.push(parsed);
+  });
+
+  $('meta[property], meta[name]').each((_, el) => {
+    const key = ($(el).attr('property') || $(el).attr('name') || '').toLowerCase();
+    const content = $(el).attr('content')?.trim();
+    if (!content || !META_PREFIXES.some(prefix => key.startsWith(prefix))) return;
+    (data.meta[key] ||= []).push(content);
+  });
+
+  for (const id of HYDRATION_SCRIPT_IDS) {
+    const parsed = parseJson($(`script[id="${id}"]`).first().html());
+    if (parsed !== undefined) data.hydration[id] = parsed;
+  }
+
+  return data;
+}
+
+/**
+ * Designs described by JSON-LD (ItemList, @graph, CreativeWork, ImageObject, ...)
+ */
+export function candidatesFromJsonLd(jsonLd: unknown[]): StructuredCandidate[] {
+  const candidates: StructuredCandidate[] = [];
+
+  const visit = (node: unknown, depth: number): void => {
+    if (depth > MAX_WALK_DEPTH || !node || typeof node !== 'object') return;
+    if (Array.isArray(node)) {
+      node.forEach(child => visit(child, depth + 1));
+      return;
+    }
+
+    const obj = node as Record<string, unknown>;
+    if (obj['@graph']) visit(obj['@graph'], depth + 1);
+    if (obj.itemListElement) visit(obj.itemListElement, depth + 1);
+    if (obj.item && typeof obj.item === 'object') visit(obj.item, depth + 1);
+
+    const title = asString(obj.name) || asString(obj.headline);
+    const url = asString(obj.url) || asString(obj['@id']);
+    const imageUrls = imageList(obj.image ?? obj.thumbnailUrl ?? obj.contentUrl);
+    if (!title || !url || !imageUrls.length) return;
+
+    const author = Array.isArray(obj.author) ? obj.author[0] : (obj.author ?? obj.creator);
+    const keywords = obj.keywords;
+
+    candidates.push({
+      title,
+      url,
+      imageUrls,
+      description: asString(obj.description),
+      designer: asString(author) || asString((author as Record<string, unknown> | undefined)?.name),
+      designerUrl: asString((author as Record<string, unknown> | undefined)?.url),
+      tags: Array.isArray(keywords)
+        ? keywords.map(asString).filter((k): k is string => !!k)
+        : asString(keywords)?.split(',').map(k => k.trim()).filter(Boolean),
+      publishedAt: asString(obj.datePublished) || asString(obj.uploadDate),
+      likes: interactionCount(obj.interactionStatistic),
+    });
+  };
+
+  visit(jsonLd, 0);
+  return candidates;
+}
+
+/**
+ * The page itself, described by its OpenGraph / Twitter card
+ */
+export function candidateFromMeta(meta: Record<string, string[]>): StructuredCandidate | null {
+  const first = (...keys: string[]) => keys.map(k => meta[k]?.[0]).find(Boolean);
+
+  const title = first('og:title', 'twitter:title');
+  const url = first('og:url', 'twitter:url');
+  const imageUrls = [...new Set([...(meta['og:image'] || []), ...(meta['twitter:image'] || [])])];
+  if (!title || !url || !imageUrls.length) return null;
+
+  return {
+    title,
+    url,
+    imageUrls,
+    description: first('og:description', 'twitter:description'),
+    designer: first('article:author', 'twitter:creator'),
+    tags: meta['article:tag'],
+    publishedAt: first('article:published_time'),
+  };
+}
+
+/**
+ * Walk a hydration blob and collect every object that looks like a design:
+ * a title, a link and an image. `mapNode` lets a collector recognise its own
+ * shapes (e.g. Pinterest pins, which have an id but no URL).
+ */
+export function candidatesFromHydration(
+  blob: unknown,
+  mapNode?: (node: Record<string, unknown>) => StructuredCandidate | null
+): StructuredCandidate[] {
+  const candidates: StructuredCandidate[] = [];
+  const seen = new Set<unknown>();
+
+  const visit = (node: unknown, depth: number): void => {
+    if (depth > MAX_WALK_DEPTH || !node || typeof node !== 'object' || seen.has(node)) return;
+    seen.add(node);
+
+    if (Array.isArray(node)) {
+      node.forEach(child => visit(child, depth + 1));
+      return;
+    }
+
+    const obj = node as Record<string, unknown>;
+    const candidate = mapNode?.(obj) ?? genericCandidate(obj);
+    if (candidate) {
+      candidates.push(candidate);
+      return;
+    }
+
+    for (const value of Object.values(obj)) {
+      visit(value, depth + 1);
+    }
+  };
+
+  visit(blob, 0);
+  return candidates;
+}
+
+function genericCandidate(obj: Record<string, unknown>): StructuredCandidate | null {
+  const title = asString(obj.title) || asString(obj.name);
+  const url = asString(obj.url) || asString(obj.permalink) || asString(obj.href) || asString(obj.link);
+  const imageUrls = imageList(
+    obj.image ?? obj.imageUrl ?? obj.image_url ?? obj.thumbnail ?? obj.thumbnailUrl ??
+    obj.thumbnail_url ?? obj.cover ?? obj.coverUrl ?? obj.images
+  );
+  if (!title || !url || !imageUrls.length) return null;
+
+  const user = (obj.user ?? obj.author ?? obj.owner) as Record<string, unknown> | undefined;
+
+  return {
+    title,
+    url,
+    imageUrls,
+    description: asString(obj.description) || asString(obj.tagline),
+    designer: asString(user?.name) || asString(user?.username),
+    designerUrl: asString(user?.url) || asString(user?.html_url),
+    tags: Array.isArray(obj.tags) ? obj.tags.map(t => asString(t) || asString((t as Record<string, unknown>)?.name)).filter((t): t is string => !!t) : undefined,
+    publishedAt: asString(obj.publishedAt) || asString(obj.published_at) || asString(obj.createdAt) || asString(obj.created_at),
+    likes: asNumber(obj.likesCount) ?? asNumber(obj.likes_count) ?? asNumber(obj.votesCount) ?? asNumber(obj.likes),
+  };
+}
+
+/**
+ * Image URLs from the many shapes structured data uses: a string, an array,
+ * `{ url }`, or a map of sizes (`{ orig: { url } }`, `{ normal, hidpi }`)
+ */
+export function imageList(value: unknown, depth = 0): string[] {
+  if (!value || depth > 3) return [];
+  if (typeof value === 'string') return isImageUrl(value) ? [value] : [];
+  if (Array.isArray(value)) return [...new Set(value.flatMap(v => imageList(v, depth + 1)))];
+  if (typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    const direct = asString(obj.url) || asString(obj.contentUrl) || asString(obj.src);
+    if (direct) return isImageUrl(direct) ? [direct] : [];
+    // Size maps: prefer the largest, which is usually listed last or named orig/hidpi
+    const sized = ['orig', 'original', 'hidpi', 'large', 'normal', ...Object.keys(obj)];
+    for (const key of sized) {
+      const found = imageList(obj[key], depth + 1);
+      if (found.length) return found.slice(0, 1);
+    }
+  }
+  return [];
+}
+
+function isImageUrl(value: string): boolean {
+  return /^(https?:)?\/\//.test(value) || value.startsWith('/');
+}
+
+function interactionCount(stats: unknown): number | undefined {
+  const list = Array.isArray(stats) ? stats : stats ? [stats] : [];
+  for (const stat of list as Array<Record<string, unknown>>) {
+    const count = asNumber(stat?.userInteractionCount);
+    if (count !== undefined) return count;
+  }
+  return undefined;
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  if (typeof value === 'number' && isFinite(value)) return value;
+  if (typeof value === 'string' && /^\d+$/.test(value)) return parseInt(value, 10);
+  return undefined;
+}
+
+function parseJson(text: string | null): unknown {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
@@ -1,4 +1,13 @@
-import type { DesignItem, CollectorConfig, DesignCategory, DesignStyle, DesignSource } from '../types/index.js';
+import { z } from 'zod';
+import type {
+  DesignItem,
+  CollectorConfig,
+  DesignCategory,
+  DesignStyle,
+  DesignSource,
+  BuiltinDesignSource,
+} from '../types/index.js';
+import { DesignSourceSchema, DesignStyleSchema, HexColorSchema } from '../types/index.js';
 import { BaseCollector } from './base-collector.js';
 
 /**
@@ -42,6 +51,8 @@ export class WebSearchCollector extends BaseCollector {
 
       // Platform-specific queries
       for (const source of config.sources || ['dribbble', 'awwwards', 'mobbin']) {
+        // Folders on disk and polled feeds have no site to search
+        if (source === 'local' || source === 'feeds') continue;
         queries.push({
           query: `site:${this.getSourceDomain(source)} ${categoryTerm} ${config.searchQuery || ''}`.trim(),
           purpose: 'source-specific',
@@ -164,7 +175,7 @@ Collect at least ${config.limit || 20} design references.
   }
 
   private getSourceDomain(source: DesignSource): string {
-    const domains: Record<DesignSource, string> = {
+    const domains: Record<Exclude<BuiltinDesignSource, 'local' | 'feeds'>, string> = {
       'dribbble': 'dribbble.com',
       'behance': 'behance.net',
       'awwwards': 'awwwards.com',
@@ -178,7 +189,7 @@ Collect at least ${config.limit || 20} design references.
       'layers': 'layers.to',
       'producthunt': 'producthunt.com',
     };
-    return domains[source];
+    return domains[source as keyof typeof domains] || source;
   }
 
   /**
@@ -209,15 +220,14 @@ Collect at least ${config.limit || 20} design references.
   }
 
   /**
-   * Parse results from Claude's WebSearch JSON output
+   * Parse results from Claude's WebSearch JSON output; invalid rows are skipped with a warning
    */
   parseClaudeSearchOutput(jsonOutput: string, config: CollectorConfig): DesignItem[] {
     try {
-      // Extract JSON from markdown code blocks if present
-      const jsonMatch = jsonOutput.match(/```(?:json)?\s*([\s\S]*?)```/);
-      const jsonStr = jsonMatch ? jsonMatch[1] : jsonOutput;
-
-      const results = JSON.parse(jsonStr.trim()) as SearchResult[];
+      const { results, rejected } = this.validateSearchOutput(jsonOutput);
+      for (const row of rejected) {
+        console.warn(`Skipping search result #${row.index + 1}: ${row.issues}`);
+      }
       return this.parseSearchResults(results, config);
     } catch (error) {
       console.error('Failed to parse Claude search output:', error);
@@ -225,6 +235,35 @@ Collect at least ${config.limit || 20} design references.
     }
   }
 
+  /**
+   * Check each row of the search output against SearchResultSchema.
+   * Throws when the output is not a JSON array at all.
+   */
+  validateSearchOutput(jsonOutput: string): SearchOutputValidation {
+    // Extract JSON from markdown code blocks if present
+    const jsonMatch = jsonOutput.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const jsonStr = jsonMatch ? jsonMatch[1] : jsonOutput;
+
+    const rows: unknown = JSON.parse(jsonStr.trim());
+    if (!Array.isArray(rows)) {
+      throw new Error('Search output must be a JSON array of results');
+    }
+
+    const results: SearchResult[] = [];
+    const rejected: RejectedSearchRow[] = [];
+    rows.forEach((row, index) => {
+      const result = SearchResultSchema.safeParse(row);
+      if (result.success) {
+        results.push(result.data);
+      } else {
+        const issues = result.error.issues.map(i => `${i.path.join('.') || 'row'}: ${i.message}`).join('; ');
+        rejected.push({ index, row, issues });
+      }
+    });
+
+    return { results, rejected };
+  }
+
   private detectSource(url: string): DesignSource {
     const sourceMap: [string, DesignSource][] = [
       ['dribbble.com', 'dribbble'],
@@ -244,7 +283,13 @@ Collect at least ${config.limit || 20} design references.
     for (const [domain, source] of sourceMap) {
       if (url.includes(domain)) return source;
     }
-    return 'dribbble';
+
+    // Other galleries get a source ID from their host, e.g. godly.website -> godly-website
+    try {
+      return new URL(url).hostname.replace(/^www\./, '').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    } catch {
+      return 'dribbble';
+    }
   }
 
   private inferStylesFromText(text: string): DesignStyle[] {
@@ -301,6 +346,7 @@ Collect at least ${config.limit || 20} design references.
     console.log(this.generateClaudePrompt(config));
     console.log('\n=====================================\n');
     console.log('Copy the above prompt and use with Claude Code WebSearch tool.');
+    console.log('Save the JSON it returns and import it with `design-scout import-search <file>`.');
     return [];
   }
 
@@ -321,15 +367,30 @@ export interface SearchQuery {
   style?: DesignStyle;
 }
 
-export interface SearchResult {
-  title: string;
-  url: string;
-  description?: string;
-  imageUrl?: string;
-  source?: DesignSource;
-  styles?: DesignStyle[];
-  colors?: string[];
-  likes?: number;
+export const SearchResultSchema = z.object({
+  title: z.string().min(1),
+  url: z.string().url(),
+  description: z.string().optional(),
+  imageUrl: z.string().url().optional(),
+  source: DesignSourceSchema.optional(),
+  styles: z.array(DesignStyleSchema).optional(),
+  colors: z.array(HexColorSchema).optional(),
+  likes: z.number().nonnegative().optional(),
+});
+
+export type SearchResult = z.infer<typeof SearchResultSchema>;
+
+// A row of search output that failed SearchResultSchema
+export interface RejectedSearchRow {
+  // Position in the output array, from 0
+  index: number;
+  row: unknown;
+  issues: string;
+}
+
+export interface SearchOutputValidation {
+  results: SearchResult[];
+  rejected: RejectedSearchRow[];
 }
 
 /**
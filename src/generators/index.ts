@@ -1,2 +1,4 @@
 export { ProposalGenerator } from './proposal-generator.js';
+export type { ProposalTokenOptions } from './proposal-generator.js';
 export { OutputGenerator } from './output-generator.js';
+export type { OutputGeneratorOptions } from './output-generator.js';
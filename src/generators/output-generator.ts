@@ -2,11 +2,18 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import type { DesignProposal, DesignItem, MoodboardItem } from '../types/index.js';
 
+export interface OutputGeneratorOptions {
+  // Image URL → local file (e.g. a thumbnail in data/assets), referenced instead of hotlinking
+  localImages?: Map<string, string>;
+}
+
 export class OutputGenerator {
   private outputDir: string;
+  private localImages: Map<string, string>;
 
-  constructor(outputDir: string = './output') {
+  constructor(outputDir: string = './output', options: OutputGeneratorOptions = {}) {
     this.outputDir = outputDir;
+    this.localImages = options.localImages || new Map();
   }
 
   async generateAllOutputs(proposal: DesignProposal): Promise<{
@@ -37,7 +44,11 @@ export class OutputGenerator {
     const filename = `moodboard-${proposal.targetCategory}-${timestamp}.html`;
     const filepath = path.join(this.outputDir, 'moodboards', filename);
 
-    const html = this.createMoodboardHtml(proposal);
+    const moodboard = proposal.moodboard.map(item => ({
+      ...item,
+      imageUrl: this.imageSrc(item.imageUrl, path.dirname(filepath)) || item.imageUrl,
+    }));
+    const html = this.createMoodboardHtml({ ...proposal, moodboard });
     await fs.writeFile(filepath, html, 'utf-8');
 
     return filepath;
@@ -691,18 +702,31 @@ export class OutputGenerator {
     `;
   }
 
+  /**
+   * Path of the local copy of an image relative to the file that shows it, if there is one
+   */
+  private imageSrc(imageUrl: string, fromDir: string): string | undefined {
+    const local = this.localImages.get(imageUrl);
+    return local ? path.relative(fromDir, local).split(path.sep).join('/') : undefined;
+  }
+
+  private referenceImage(ref: DesignItem, reportDir: string): string {
+    const src = ref.imageUrls.map(url => this.imageSrc(url, reportDir)).find(Boolean);
+    return src ? `![${ref.title}](${src})` : '';
+  }
+
   async generateDesignReport(proposal: DesignProposal): Promise<string> {
     const timestamp = Date.now();
     const filename = `design-report-${proposal.targetCategory}-${timestamp}.md`;
     const filepath = path.join(this.outputDir, 'reports', filename);
 
-    const markdown = this.createDesignReportMarkdown(proposal);
+    const markdown = this.createDesignReportMarkdown(proposal, path.dirname(filepath));
     await fs.writeFile(filepath, markdown, 'utf-8');
 
     return filepath;
   }
 
-  private createDesignReportMarkdown(proposal: DesignProposal): string {
+  private createDesignReportMarkdown(proposal: DesignProposal, reportDir: string): string {
     const { colorPalette, trends, typographyRecommendations, layoutSuggestions } = proposal;
 
     return `# ${proposal.title}
@@ -746,7 +770,7 @@ ${typographyRecommendations.map(t => `
 ${t.letterSpacing ? `- **Letter Spacing:** ${t.letterSpacing}` : ''}
 ${t.googleFontsUrl ? `- [Google Fonts →](${t.googleFontsUrl})` : ''}
 `).join('')}
-
+${this.renderTokenSection(proposal)}
 ---
 
 ## Trending Styles
@@ -796,6 +820,7 @@ ${i + 1}. **${ref.title}**
    - URL: ${ref.sourceUrl}
    - Styles: ${ref.styles.join(', ')}
    ${ref.designer ? `- Designer: ${ref.designer}` : ''}
+   ${this.referenceImage(ref, reportDir)}
 `).join('')}
 
 ---
@@ -814,6 +839,37 @@ ${i + 1}. **${ref.title}**
 `;
   }
 
+  private renderTokenSection(proposal: DesignProposal): string {
+    const { designTokens, tokenComparison } = proposal;
+    if (!designTokens) return '';
+
+    if (!tokenComparison) {
+      return `
+---
+
+## Design Library
+
+Palette and typography start from **${designTokens.name}** (${Object.keys(designTokens.colors).length} colors, ${designTokens.shadows.length} shadows, ${designTokens.radii.length} radii).
+${designTokens.unmappedRoles.length ? `\nRoles not defined in the library: ${designTokens.unmappedRoles.join(', ')}\n` : ''}`;
+    }
+
+    return `
+---
+
+## Design Library Comparison
+
+Compared with **${designTokens.name}**: ${tokenComparison.score}% match
+
+| Role | Proposed | Library | Nearest library color |
+|------|----------|---------|-----------------------|
+${tokenComparison.colors.map(c => `| ${c.role} ${c.matches ? '✓' : '✗'} | \`${c.proposed}\` | \`${c.library}\` | ${c.nearest.name} (\`${c.nearest.hex}\`) |`).join('\n')}
+
+${tokenComparison.typography.filter(t => t.library).map(t =>
+  `- **${t.role}:** ${t.differences.length ? t.differences.join(', ') : 'matches the library'}`
+).join('\n')}
+`;
+  }
+
   async generateCodeSnippetsFile(proposal: DesignProposal): Promise<string> {
     const timestamp = Date.now();
     const filename = `snippets-${proposal.targetCategory}-${timestamp}`;
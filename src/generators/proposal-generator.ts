@@ -9,8 +9,18 @@ import type {
   CodeSnippet,
   ColorPalette,
   AnalysisResult,
+  DesignTokenSet,
+  TokenComparison,
 } from '../types/index.js';
 import { DesignAnalyzer } from '../analyzers/design-analyzer.js';
+import { applyDesignTokens, compareWithTokens } from '../analyzers/figma-tokens.js';
+import { compareEngagement } from '../analyzers/engagement.js';
+
+export interface ProposalTokenOptions {
+  tokens: DesignTokenSet;
+  // "start" builds on the library's palette and type scale, "compare" only reports the gaps
+  mode: 'start' | 'compare';
+}
 
 export class ProposalGenerator {
   private analyzer: DesignAnalyzer;
@@ -22,16 +32,28 @@ export class ProposalGenerator {
   async generateProposal(
     items: DesignItem[],
     targetCategory: DesignCategory,
-    targetPlatform: 'web' | 'ios' | 'android' | 'cross-platform' = 'web'
+    targetPlatform: 'web' | 'ios' | 'android' | 'cross-platform' = 'web',
+    designTokens?: ProposalTokenOptions
   ): Promise<DesignProposal> {
     const analysis = await this.analyzer.analyzeDesigns(items);
     const trends = await this.analyzer.identifyTrends(items);
-    const colorPalette = this.analyzer.generateColorPalette(items);
+    let colorPalette = this.analyzer.generateColorPalette(items);
 
     const moodboard = this.createMoodboard(items, analysis);
-    const typography = this.generateTypographyRecommendations(analysis, targetPlatform);
+    let typography = this.generateTypographyRecommendations(analysis, targetPlatform);
     const layouts = this.generateLayoutSuggestions(analysis, targetCategory, targetPlatform);
+
+    let tokenComparison: TokenComparison | undefined;
+    if (designTokens?.mode === 'start') {
+      ({ colorPalette, typography } = applyDesignTokens(colorPalette, typography, designTokens.tokens));
+    } else if (designTokens?.mode === 'compare') {
+      tokenComparison = compareWithTokens(colorPalette, typography, designTokens.tokens);
+    }
+
     const snippets = this.generateCodeSnippets(colorPalette, analysis, targetPlatform);
+    if (designTokens?.mode === 'start') {
+      snippets.push(...this.generateTokenSnippets(designTokens.tokens));
+    }
 
     return {
       id: `proposal-${Date.now()}`,
@@ -46,17 +68,20 @@ export class ProposalGenerator {
       codeSnippets: snippets,
       references: items.slice(0, 10),
       createdAt: new Date(),
+      designTokens: designTokens?.tokens,
+      tokenComparison,
     };
   }
 
   private createMoodboard(items: DesignItem[], analysis: AnalysisResult): MoodboardItem[] {
-    // Select diverse items for moodboard
+    // Select diverse items for moodboard, best engagement first within each style
+    const ranked = [...items].sort(compareEngagement);
     const selectedItems: DesignItem[] = [];
     const usedStyles = new Set<string>();
 
     // Prioritize items with dominant styles
     for (const style of analysis.dominantStyles) {
-      const styleItem = items.find(
+      const styleItem = ranked.find(
         item => item.styles.includes(style) && !selectedItems.includes(item)
       );
       if (styleItem && !usedStyles.has(style)) {
@@ -66,9 +91,8 @@ export class ProposalGenerator {
     }
 
     // Fill remaining slots with high-engagement items
-    const remaining = items
+    const remaining = ranked
       .filter(item => !selectedItems.includes(item))
-      .sort((a, b) => (b.likes || 0) - (a.likes || 0))
       .slice(0, 8 - selectedItems.length);
 
     selectedItems.push(...remaining);
@@ -89,7 +113,7 @@ export class ProposalGenerator {
       return `Exemplifies ${matchingStyles.join(' and ')} trends`;
     }
 
-    if ((item.likes || 0) > 1000) {
+    if ((item.engagementScore ?? 0) >= 90) {
       return 'High engagement design with proven appeal';
     }
 
@@ -132,8 +156,10 @@ export class ProposalGenerator {
     const isModern = analysis.modernityScore > 70;
     const isMinimal = analysis.dominantStyles.includes('minimalist');
 
-    const headingFont = isModern ? 'Inter' : isMinimal ? 'Space Grotesk' : 'Poppins';
-    const bodyFont = isMinimal ? 'Inter' : 'Open Sans';
+    // Fonts the analyzed live sites actually ship win over the style-based defaults
+    const [siteHeading, siteBody] = analysis.siteFonts || [];
+    const headingFont = siteHeading?.family || (isModern ? 'Inter' : isMinimal ? 'Space Grotesk' : 'Poppins');
+    const bodyFont = siteBody?.family || siteHeading?.family || (isMinimal ? 'Inter' : 'Open Sans');
 
     const baseFontSize = platform === 'web' ? '16px' : '17px';
 
@@ -272,6 +298,26 @@ export class ProposalGenerator {
     return suggestions;
   }
 
+  /**
+   * Shadow and radius custom properties from the imported library
+   */
+  private generateTokenSnippets(tokens: DesignTokenSet): CodeSnippet[] {
+    const toProperty = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    const lines = [
+      ...tokens.shadows.map(shadow => `  --shadow-${toProperty(shadow.name)}: ${shadow.css};`),
+      ...tokens.radii.map(radius => `  --radius-${toProperty(radius.name.replace(/^(radius|radii|corner)s?\b/i, ''))}: ${radius.value};`),
+    ];
+    if (!lines.length) return [];
+
+    return [{
+      name: 'Library Shadows & Radii',
+      description: `Effect styles and corner radii from ${tokens.name}`,
+      language: 'css',
+      code: `:root {\n${lines.join('\n')}\n}`,
+      usage: 'Add next to the color palette custom properties',
+    }];
+  }
+
   private generateCodeSnippets(
     colorPalette: ColorPalette,
     analysis: AnalysisResult,
@@ -0,0 +1,183 @@
+import type { DesignSource } from '../types/index.js';
+import { getCassette } from './cassette.js';
+import { getRateLimiter } from './rate-limiter.js';
+import { USER_AGENT } from './robots.js';
+import { sleep } from './sleep.js';
+
+export type ApiService = 'dribbble' | 'figma' | 'behance';
+
+export class ApiError extends Error {
+  constructor(
+    public readonly service: ApiService,
+    public readonly status: number,
+    public readonly url: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export interface ApiClientOptions {
+  service: ApiService;
+  baseUrl: string;
+  token: string;
+  // Fetch used for requests; swap in a stub for tests
+  fetchImpl?: typeof fetch;
+  retries?: number;
+}
+
+interface ApiServiceDefinition {
+  baseUrl: string;
+  tokenEnv: string;
+  urlEnv: string;
+  // How the token is sent: a request header or a query parameter
+  auth: (token: string) => { headers?: Record<string, string>; params?: Record<string, string> };
+}
+
+const API_SERVICES: Record<ApiService, ApiServiceDefinition> = {
+  dribbble: {
+    baseUrl: 'https://api.dribbble.com/v2',
+    tokenEnv: 'DRIBBBLE_ACCESS_TOKEN',
+    urlEnv: 'DRIBBBLE_API_URL',
+    auth: token => ({ headers: { Authorization: `Bearer ${token}` } }),
+  },
+  figma: {
+    baseUrl: 'https://api.figma.com/v1',
+    tokenEnv: 'FIGMA_ACCESS_TOKEN',
+    urlEnv: 'FIGMA_API_URL',
+    auth: token => ({ headers: { 'X-Figma-Token': token } }),
+  },
+  behance: {
+    baseUrl: 'https://api.behance.net/v2',
+    tokenEnv: 'BEHANCE_API_KEY',
+    urlEnv: 'BEHANCE_API_URL',
+    auth: token => ({ params: { client_id: token } }),
+  },
+};
+
+/**
+ * JSON client for the official design platform APIs. Requests are rate limited
+ * per host and go through the record/replay cassette like collector page fetches.
+ */
+export class ApiClient {
+  readonly service: ApiService;
+  private baseUrl: string;
+  private token: string;
+  private fetchImpl: typeof fetch;
+  private retries: number;
+
+  constructor(options: ApiClientOptions) {
+    this.service = options.service;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.token = options.token;
+    this.fetchImpl = options.fetchImpl || fetch;
+    this.retries = options.retries ?? 3;
+  }
+
+  /**
+   * GET a JSON resource. `path` is relative to the service's base URL. Aborting
+   * `signal` cancels the request in flight and any retry wait.
+   */
+  async get<T>(
+    path: string,
+    params: Record<string, string | number | undefined> = {},
+    signal?: AbortSignal
+  ): Promise<T> {
+    const auth = API_SERVICES[this.service].auth(this.token);
+    const url = this.buildUrl(path, { ...params, ...auth.params });
+    const init: RequestInit = {
+      signal,
+      headers: {
+        'User-Agent': USER_AGENT,
+        Accept: 'application/json',
+        ...auth.headers,
+      },
+    };
+
+    const live = getCassette().getMode() !== 'replay';
+
+    for (let attempt = 0; ; attempt++) {
+      signal?.throwIfAborted();
+      if (live) {
+        await getRateLimiter().acquire(url, this.service as DesignSource, undefined, signal);
+      }
+
+      const response = await getCassette().fetch(url, init, this.fetchImpl);
+      if (response.ok) {
+        return await response.json() as T;
+      }
+
+      // Rate limits and server errors are worth another try; anything else is final
+      const retryable = response.status === 429 || response.status >= 500;
+      if (!retryable || attempt >= this.retries - 1) {
+        throw new ApiError(this.service, response.status, this.redact(url), this.describe(response.status));
+      }
+      if (live) {
+        await sleep(Math.pow(2, attempt) * 1000, signal);
+      }
+    }
+  }
+
+  private buildUrl(path: string, params: Record<string, string | number | undefined>): string {
+    const url = new URL(`${this.baseUrl}/${path.replace(/^\/+/, '')}`);
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) url.searchParams.set(key, String(value));
+    }
+    return url.toString();
+  }
+
+  private describe(status: number): string {
+    if (status === 401 || status === 403) {
+      return `${this.service} API rejected the credentials (HTTP ${status}); check ${API_SERVICES[this.service].tokenEnv}`;
+    }
+    return `${this.service} API request failed with HTTP ${status}`;
+  }
+
+  // Keep query-string keys out of error messages and logs
+  private redact(url: string): string {
+    return url.replace(this.token, '***');
+  }
+}
+
+export interface ApiClientOverrides {
+  token?: string;
+  baseUrl?: string;
+  fetchImpl?: typeof fetch;
+}
+
+// Explicit settings win over the environment; null disables the service
+let apiOverrides: Partial<Record<ApiService, ApiClientOverrides | null>> = {};
+const apiClients = new Map<ApiService, ApiClient | null>();
+
+/**
+ * Configure API credentials, base URLs (e.g. a local stub server) or the fetch
+ * implementation. Services not listed fall back to the environment.
+ */
+export function configureApiClients(overrides: Partial<Record<ApiService, ApiClientOverrides | null>>): void {
+  apiOverrides = { ...apiOverrides, ...overrides };
+  apiClients.clear();
+}
+
+/**
+ * The client for a service, or null when no credentials are configured.
+ * Tokens come from DRIBBBLE_ACCESS_TOKEN, FIGMA_ACCESS_TOKEN and BEHANCE_API_KEY;
+ * DRIBBBLE_API_URL, FIGMA_API_URL and BEHANCE_API_URL override the base URLs.
+ */
+export function getApiClient(service: ApiService): ApiClient | null {
+  if (!apiClients.has(service)) {
+    const definition = API_SERVICES[service];
+    const override = apiOverrides[service];
+    const token = override === null ? undefined : override?.token || process.env[definition.tokenEnv];
+
+    apiClients.set(service, token
+      ? new ApiClient({
+          service,
+          token,
+          baseUrl: override?.baseUrl || process.env[definition.urlEnv] || definition.baseUrl,
+          fetchImpl: override?.fetchImpl,
+        })
+      : null);
+  }
+  return apiClients.get(service)!;
+}
@@ -0,0 +1,186 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export interface CassetteEntry {
+  request: {
+    method: string;
+    url: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+    encoding: 'utf-8' | 'base64';
+  };
+  recordedAt: string;
+}
+
+export interface CassetteOptions {
+  mode?: CassetteMode;
+  dir?: string;
+}
+
+const TEXT_CONTENT_TYPES = ['text/', 'json', 'xml', 'javascript'];
+
+// API keys sent as query parameters are masked in recorded files; file names hash the masked URL too
+const SECRET_PARAMS = ['client_id', 'access_token', 'api_key', 'key'];
+
+/**
+ * Record/replay layer for HTTP requests.
+ * In record mode every response is written to `<dir>/<host>/<hash>.json`;
+ * in replay mode responses are served from those files and the network is never used.
+ */
+export class HttpCassette {
+  private mode: CassetteMode;
+  private dir: string;
+
+  constructor(options: CassetteOptions = {}) {
+    this.mode = options.mode || 'off';
+    this.dir = options.dir || './cassettes';
+  }
+
+  getMode(): CassetteMode {
+    return this.mode;
+  }
+
+  /**
+   * Fetch through the cassette
+   */
+  async fetch(url: string, init?: RequestInit, fetchImpl: typeof fetch = fetch): Promise<Response> {
+    const method = (init?.method || 'GET').toUpperCase();
+
+    if (this.mode === 'replay') {
+      const entry = await this.read(method, url);
+      if (!entry) {
+        throw new Error(`No cassette recorded for ${method} ${this.redactUrl(url)} (looked in ${this.entryPath(method, url)})`);
+      }
+      return this.toResponse(entry);
+    }
+
+    const response = await fetchImpl(url, init);
+
+    if (this.mode === 'record') {
+      const entry = await this.toEntry(method, url, response.clone());
+      await this.write(url, entry);
+    }
+
+    return response;
+  }
+
+  /**
+   * Read a recorded entry, or null when none exists
+   */
+  async read(method: string, url: string): Promise<CassetteEntry | null> {
+    try {
+      const content = await fs.readFile(this.entryPath(method, url), 'utf-8');
+      return JSON.parse(content) as CassetteEntry;
+    } catch {
+      return null;
+    }
+  }
+
+  private async write(url: string, entry: CassetteEntry): Promise<void> {
+    const filePath = this.entryPath(entry.request.method, url);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(entry, null, 2), 'utf-8');
+  }
+
+  // Named after the redacted URL so keys never end up in file names, and a
+  // cassette replays with any key
+  private entryPath(method: string, url: string): string {
+    const host = this.safeHost(url);
+    const hash = createHash('sha1').update(`${method} ${this.redactUrl(url)}`).digest('hex').slice(0, 16);
+    return path.join(this.dir, host, `${hash}.json`);
+  }
+
+  private safeHost(url: string): string {
+    try {
+      return new URL(url).host.replace(/[^a-zA-Z0-9.-]/g, '_');
+    } catch {
+      return '_invalid';
+    }
+  }
+
+  private async toEntry(method: string, url: string, response: Response): Promise<CassetteEntry> {
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+
+    const contentType = headers['content-type'] || '';
+    const isText = TEXT_CONTENT_TYPES.some(t => contentType.includes(t)) || !contentType;
+    const buffer = Buffer.from(await response.arrayBuffer());
+
+    return {
+      request: { method, url: this.redactUrl(url) },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        body: isText ? buffer.toString('utf-8') : buffer.toString('base64'),
+        encoding: isText ? 'utf-8' : 'base64',
+      },
+      recordedAt: new Date().toISOString(),
+    };
+  }
+
+  private redactUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      const secrets = SECRET_PARAMS.filter(param => parsed.searchParams.has(param));
+      // URLs without keys are left exactly as they are
+      if (!secrets.length) return url;
+      for (const param of secrets) {
+        parsed.searchParams.set(param, 'REDACTED');
+      }
+      return parsed.toString();
+    } catch {
+      return url;
+    }
+  }
+
+  private toResponse(entry: CassetteEntry): Response {
+    const { status, statusText, headers, body, encoding } = entry.response;
+    const payload = encoding === 'base64' ? Buffer.from(body, 'base64') : body;
+
+    // Bodies are stored decoded, so drop transfer headers that no longer apply
+    const replayHeaders = { ...headers };
+    delete replayHeaders['content-encoding'];
+    delete replayHeaders['content-length'];
+
+    // Null-body statuses cannot carry a body in the Response constructor
+    const nullBody = status === 204 || status === 304;
+    return new Response(nullBody ? null : payload, { status, statusText, headers: replayHeaders });
+  }
+}
+
+// Shared instance used by collectors
+let cassetteInstance: HttpCassette | null = null;
+
+/**
+ * Configure the shared cassette. Defaults come from DESIGN_SCOUT_HTTP_MODE
+ * and DESIGN_SCOUT_CASSETTE_DIR.
+ */
+export function configureCassette(options: CassetteOptions = {}): HttpCassette {
+  const mode = options.mode || parseCassetteMode(process.env.DESIGN_SCOUT_HTTP_MODE);
+  const dir = options.dir || process.env.DESIGN_SCOUT_CASSETTE_DIR || './cassettes';
+  cassetteInstance = new HttpCassette({ mode, dir });
+  return cassetteInstance;
+}
+
+export function getCassette(): HttpCassette {
+  if (!cassetteInstance) {
+    return configureCassette();
+  }
+  return cassetteInstance;
+}
+
+export function parseCassetteMode(value?: string): CassetteMode {
+  if (!value) return 'off';
+  if (value === 'off' || value === 'record' || value === 'replay') return value;
+  throw new Error(`Invalid HTTP mode "${value}" (expected off, record or replay)`);
+}
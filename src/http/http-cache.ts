@@ -0,0 +1,272 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+export interface HttpCacheOptions {
+  dir?: string;
+  // Entries younger than this are served without contacting the server
+  maxAgeMs?: number;
+  // Least recently used entries are evicted above this total body size
+  maxSizeBytes?: number;
+  enabled?: boolean;
+}
+
+export interface HttpCacheMeta {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  etag?: string;
+  lastModified?: string;
+  size: number;
+  storedAt: number;
+  accessedAt: number;
+}
+
+export interface HttpCacheStats {
+  entries: number;
+  totalBytes: number;
+}
+
+export const DEFAULT_CACHE_DIR = './data/http-cache';
+export const DEFAULT_CACHE_MAX_AGE_MS = 60 * 60 * 1000;
+export const DEFAULT_CACHE_MAX_SIZE_BYTES = 500 * 1024 * 1024;
+
+type FetchImpl = (url: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * On-disk cache for GET responses. Each entry is `<hash>.json` (status, headers,
+ * validators) plus `<hash>.body`. Fresh entries are served directly; stale ones
+ * are revalidated with If-None-Match / If-Modified-Since.
+ */
+export class HttpCache {
+  private dir: string;
+  private maxAgeMs: number;
+  private maxSizeBytes: number;
+  private enabled: boolean;
+  private index: Map<string, HttpCacheMeta> | null = null;
+  private totalBytes = 0;
+
+  constructor(options: HttpCacheOptions = {}) {
+    this.dir = options.dir || DEFAULT_CACHE_DIR;
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_CACHE_MAX_AGE_MS;
+    this.maxSizeBytes = options.maxSizeBytes ?? DEFAULT_CACHE_MAX_SIZE_BYTES;
+    this.enabled = options.enabled ?? true;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Fetch through the cache. Only GET requests are cached.
+   */
+  async fetch(url: string, init?: RequestInit, fetchImpl: FetchImpl = fetch): Promise<Response> {
+    const method = (init?.method || 'GET').toUpperCase();
+    if (!this.enabled || method !== 'GET') {
+      return fetchImpl(url, init);
+    }
+
+    const key = this.key(url);
+    const cached = await this.getMeta(key);
+
+    if (cached && Date.now() - cached.storedAt < this.maxAgeMs) {
+      const body = await this.readBody(key);
+      if (body) {
+        await this.touch(key, cached, false);
+        return this.toResponse(cached, body);
+      }
+    }
+
+    // Stale (or no body on disk): revalidate when we have validators
+    const headers = new Headers(init?.headers);
+    if (cached?.etag) headers.set('If-None-Match', cached.etag);
+    if (cached?.lastModified) headers.set('If-Modified-Since', cached.lastModified);
+
+    const response = await fetchImpl(url, { ...init, headers });
+
+    if (response.status === 304 && cached) {
+      const body = await this.readBody(key);
+      if (body) {
+        await this.touch(key, cached, true);
+        return this.toResponse(cached, body);
+      }
+      // Body went missing; fetch again without validators
+      return this.store(key, url, await fetchImpl(url, init));
+    }
+
+    return this.store(key, url, response);
+  }
+
+  /**
+   * Remove every cached entry
+   */
+  async clear(): Promise<HttpCacheStats> {
+    const stats = await this.stats();
+    await fs.rm(this.dir, { recursive: true, force: true });
+    this.index = new Map();
+    this.totalBytes = 0;
+    return stats;
+  }
+
+  async stats(): Promise<HttpCacheStats> {
+    const index = await this.loadIndex();
+    return { entries: index.size, totalBytes: this.totalBytes };
+  }
+
+  private async store(key: string, url: string, response: Response): Promise<Response> {
+    if (response.status !== 200) return response;
+
+    const cacheControl = response.headers.get('cache-control') || '';
+    if (/no-store/i.test(cacheControl)) return response;
+
+    const body = Buffer.from(await response.arrayBuffer());
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name] = value;
+    });
+
+    const now = Date.now();
+    const meta: HttpCacheMeta = {
+      url,
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      etag: response.headers.get('etag') || undefined,
+      lastModified: response.headers.get('last-modified') || undefined,
+      size: body.length,
+      storedAt: now,
+      accessedAt: now,
+    };
+
+    try {
+      await fs.mkdir(this.dir, { recursive: true });
+      await fs.writeFile(this.bodyPath(key), body);
+      await fs.writeFile(this.metaPath(key), JSON.stringify(meta, null, 2), 'utf-8');
+      await this.setIndex(key, meta);
+      await this.evict();
+    } catch (error) {
+      console.warn(`Could not write HTTP cache entry for ${url}:`, error);
+    }
+
+    return this.toResponse(meta, body);
+  }
+
+  /**
+   * Drop least recently used entries until the cache fits in maxSizeBytes
+   */
+  private async evict(): Promise<void> {
+    if (this.totalBytes <= this.maxSizeBytes) return;
+
+    const index = await this.loadIndex();
+    const byAccess = [...index.entries()].sort((a, b) => a[1].accessedAt - b[1].accessedAt);
+
+    for (const [key, meta] of byAccess) {
+      if (this.totalBytes <= this.maxSizeBytes) break;
+      await fs.rm(this.metaPath(key), { force: true });
+      await fs.rm(this.bodyPath(key), { force: true });
+      index.delete(key);
+      this.totalBytes -= meta.size;
+    }
+  }
+
+  private async touch(key: string, meta: HttpCacheMeta, revalidated: boolean): Promise<void> {
+    meta.accessedAt = Date.now();
+    if (revalidated) meta.storedAt = meta.accessedAt;
+    try {
+      await fs.writeFile(this.metaPath(key), JSON.stringify(meta, null, 2), 'utf-8');
+    } catch {
+      // Access times are best-effort
+    }
+  }
+
+  private async getMeta(key: string): Promise<HttpCacheMeta | undefined> {
+    const index = await this.loadIndex();
+    return index.get(key);
+  }
+
+  private async setIndex(key: string, meta: HttpCacheMeta): Promise<void> {
+    const index = await this.loadIndex();
+    const previous = index.get(key);
+    if (previous) this.totalBytes -= previous.size;
+    index.set(key, meta);
+    this.totalBytes += meta.size;
+  }
+
+  private async loadIndex(): Promise<Map<string, HttpCacheMeta>> {
+    if (this.index) return this.index;
+
+    const index = new Map<string, HttpCacheMeta>();
+    let total = 0;
+
+    try {
+      for (const file of await fs.readdir(this.dir)) {
+        if (!file.endsWith('.json')) continue;
+        try {
+          const meta = JSON.parse(await fs.readFile(path.join(this.dir, file), 'utf-8')) as HttpCacheMeta;
+          index.set(file.slice(0, -'.json'.length), meta);
+          total += meta.size;
+        } catch {
+          // Ignore corrupt entries; they are overwritten on the next fetch
+        }
+      }
+    } catch {
+      // No cache directory yet
+    }
+
+    this.index = index;
+    this.totalBytes = total;
+    return index;
+  }
+
+  private async readBody(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.bodyPath(key));
+    } catch {
+      return null;
+    }
+  }
+
+  private toResponse(meta: HttpCacheMeta, body: Buffer): Response {
+    // Bodies are stored decoded, so drop transfer headers that no longer apply
+    const headers = { ...meta.headers };
+    delete headers['content-encoding'];
+    delete headers['content-length'];
+    return new Response(new Uint8Array(body), { status: meta.status, statusText: meta.statusText, headers });
+  }
+
+  private key(url: string): string {
+    return createHash('sha1').update(url).digest('hex');
+  }
+
+  private metaPath(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+
+  private bodyPath(key: string): string {
+    return path.join(this.dir, `${key}.body`);
+  }
+}
+
+// Shared instance used by collectors and the color extractor
+let cacheInstance: HttpCache | null = null;
+
+/**
+ * Configure the shared HTTP cache. Defaults come from DESIGN_SCOUT_CACHE
+ * (`off` disables it) and DESIGN_SCOUT_CACHE_DIR.
+ */
+export function configureHttpCache(options: HttpCacheOptions = {}): HttpCache {
+  cacheInstance = new HttpCache({
+    ...options,
+    dir: options.dir || process.env.DESIGN_SCOUT_CACHE_DIR || DEFAULT_CACHE_DIR,
+    enabled: options.enabled ?? process.env.DESIGN_SCOUT_CACHE !== 'off',
+  });
+  return cacheInstance;
+}
+
+export function getHttpCache(): HttpCache {
+  if (!cacheInstance) {
+    return configureHttpCache();
+  }
+  return cacheInstance;
+}
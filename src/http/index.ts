@@ -0,0 +1,17 @@
+export { HttpCassette, configureCassette, getCassette, parseCassetteMode } from './cassette.js';
+export type { CassetteMode, CassetteEntry, CassetteOptions } from './cassette.js';
+export { TokenBucket, HostRateLimiter, getRateLimiter, DEFAULT_RATE_LIMIT } from './rate-limiter.js';
+export type { RateLimitConfig } from './rate-limiter.js';
+export { RobotsTxt, RobotsCache, RobotsDisallowedError, getRobotsCache, USER_AGENT } from './robots.js';
+export {
+  HttpCache,
+  configureHttpCache,
+  getHttpCache,
+  DEFAULT_CACHE_DIR,
+  DEFAULT_CACHE_MAX_AGE_MS,
+  DEFAULT_CACHE_MAX_SIZE_BYTES,
+} from './http-cache.js';
+export type { HttpCacheOptions, HttpCacheMeta, HttpCacheStats } from './http-cache.js';
+export { ApiClient, ApiError, configureApiClients, getApiClient } from './api-client.js';
+export type { ApiService, ApiClientOptions, ApiClientOverrides } from './api-client.js';
+export { canonicalUrl } from './url.js';
@@ -0,0 +1,125 @@
+import type { DesignSource } from '../types/index.js';
+import { sleep } from './sleep.js';
+
+export interface RateLimitConfig {
+  // Sustained request rate per host
+  requestsPerSecond: number;
+  // Requests allowed back-to-back before throttling kicks in
+  burst: number;
+}
+
+export const DEFAULT_RATE_LIMIT: RateLimitConfig = { requestsPerSecond: 1, burst: 1 };
+
+// Per-source defaults; hosts are throttled with the limits of the source requesting them
+const SOURCE_RATE_LIMITS: Record<string, RateLimitConfig> = {
+  'dribbble': { requestsPerSecond: 1, burst: 1 },
+  'awwwards': { requestsPerSecond: 1 / 1.5, burst: 1 },
+  'mobbin': { requestsPerSecond: 1 / 1.2, burst: 1 },
+  'behance': { requestsPerSecond: 1, burst: 1 },
+  'figma': { requestsPerSecond: 1, burst: 1 },
+  'pinterest': { requestsPerSecond: 1, burst: 1 },
+  'producthunt': { requestsPerSecond: 1, burst: 1 },
+  'appstore': { requestsPerSecond: 1 / 3, burst: 2 }, // iTunes allows ~20 calls/minute
+  'playstore': { requestsPerSecond: 1, burst: 1 },
+  'cssawards': { requestsPerSecond: 1 / 1.5, burst: 1 },
+  'siteinspire': { requestsPerSecond: 1 / 1.2, burst: 1 },
+  'layers': { requestsPerSecond: 1, burst: 1 },
+};
+
+/**
+ * Classic token bucket: holds up to `capacity` tokens, refilled continuously.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(private capacity: number, private refillPerSecond: number) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait until a token is available, then consume it. Aborting `signal` rejects
+   * the wait without taking a token.
+   */
+  async take(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      signal?.throwIfAborted();
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      const waitMs = Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000);
+      await sleep(waitMs, signal);
+    }
+  }
+
+  /**
+   * Slow the bucket down (e.g. to honor a robots.txt Crawl-delay); never speeds it up
+   */
+  throttle(refillPerSecond: number): void {
+    this.refill();
+    this.refillPerSecond = Math.min(this.refillPerSecond, refillPerSecond);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * One token bucket per host, shared by every collector in the process.
+ */
+export class HostRateLimiter {
+  private buckets: Map<string, TokenBucket> = new Map();
+  private overrides: Record<string, RateLimitConfig> = {};
+
+  /**
+   * Override limits per source (e.g. from the project config file)
+   */
+  configure(overrides: Record<string, Partial<RateLimitConfig>>): void {
+    for (const [source, limit] of Object.entries(overrides)) {
+      this.overrides[source] = { ...this.getLimit(source), ...limit };
+    }
+    this.buckets.clear();
+  }
+
+  getLimit(source?: DesignSource): RateLimitConfig {
+    if (!source) return DEFAULT_RATE_LIMIT;
+    return this.overrides[source] || SOURCE_RATE_LIMITS[source] || DEFAULT_RATE_LIMIT;
+  }
+
+  /**
+   * Wait for the host's next request slot; aborting `signal` rejects the wait
+   */
+  async acquire(url: string, source?: DesignSource, crawlDelaySeconds?: number, signal?: AbortSignal): Promise<void> {
+    const host = new URL(url).host;
+    let bucket = this.buckets.get(host);
+
+    if (!bucket) {
+      const limit = this.getLimit(source);
+      bucket = new TokenBucket(limit.burst, limit.requestsPerSecond);
+      this.buckets.set(host, bucket);
+    }
+
+    if (crawlDelaySeconds && crawlDelaySeconds > 0) {
+      bucket.throttle(1 / crawlDelaySeconds);
+    }
+
+    await bucket.take(signal);
+  }
+}
+
+// Singleton instance
+let limiterInstance: HostRateLimiter | null = null;
+
+export function getRateLimiter(): HostRateLimiter {
+  if (!limiterInstance) {
+    limiterInstance = new HostRateLimiter();
+  }
+  return limiterInstance;
+}
@@ -0,0 +1,209 @@
+import { getCassette } from './cassette.js';
+
+export const USER_AGENT = 'DesignScoutAgent/1.0';
+
+/**
+ * Thrown when a URL is disallowed by the site's robots.txt; never retried.
+ */
+export class RobotsDisallowedError extends Error {
+  constructor(public url: string) {
+    super(`Disallowed by robots.txt: ${url}`);
+    this.name = 'RobotsDisallowedError';
+  }
+}
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+/**
+ * Parsed robots.txt (RFC 9309, plus the common Crawl-delay extension).
+ */
+export class RobotsTxt {
+  private groups: RobotsGroup[];
+
+  constructor(content: string) {
+    this.groups = this.parse(content);
+  }
+
+  /**
+   * A robots.txt that allows everything (missing file / 4xx)
+   */
+  static allowAll(): RobotsTxt {
+    return new RobotsTxt('');
+  }
+
+  /**
+   * A robots.txt that disallows everything (server error / unreachable)
+   */
+  static disallowAll(): RobotsTxt {
+    return new RobotsTxt('User-agent: *\nDisallow: /');
+  }
+
+  isAllowed(url: string, userAgent: string = USER_AGENT): boolean {
+    const parsed = new URL(url);
+    const target = this.decodePath(parsed.pathname) + parsed.search;
+
+    // /robots.txt itself is always allowed
+    if (parsed.pathname === '/robots.txt') return true;
+
+    const group = this.findGroup(userAgent);
+    if (!group) return true;
+
+    // Longest matching pattern wins; Allow wins ties
+    let best: RobotsRule | null = null;
+    for (const rule of group.rules) {
+      if (!rule.pattern) continue;
+      if (!this.matches(rule.pattern, target)) continue;
+      if (!best ||
+          rule.pattern.length > best.pattern.length ||
+          (rule.pattern.length === best.pattern.length && rule.allow)) {
+        best = rule;
+      }
+    }
+
+    return best ? best.allow : true;
+  }
+
+  getCrawlDelay(userAgent: string = USER_AGENT): number | undefined {
+    return this.findGroup(userAgent)?.crawlDelay;
+  }
+
+  private findGroup(userAgent: string): RobotsGroup | undefined {
+    const product = userAgent.split('/')[0].toLowerCase();
+    return this.groups.find(g => g.agents.some(a => a !== '*' && product.includes(a))) ||
+           this.groups.find(g => g.agents.includes('*'));
+  }
+
+  private decodePath(pathname: string): string {
+    try {
+      return decodeURIComponent(pathname);
+    } catch {
+      return pathname;
+    }
+  }
+
+  private matches(pattern: string, target: string): boolean {
+    const anchored = pattern.endsWith('$');
+    const body = anchored ? pattern.slice(0, -1) : pattern;
+    const regex = body
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(target);
+  }
+
+  private parse(content: string): RobotsGroup[] {
+    const groups: RobotsGroup[] = [];
+    let current: RobotsGroup | null = null;
+    let lastWasAgent = false;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) continue;
+
+      const key = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (key === 'user-agent') {
+        // Consecutive User-agent lines share one group
+        if (!current || !lastWasAgent) {
+          current = { agents: [], rules: [] };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+        lastWasAgent = true;
+        continue;
+      }
+
+      lastWasAgent = false;
+      if (!current) continue;
+
+      if (key === 'allow' || key === 'disallow') {
+        current.rules.push({ allow: key === 'allow', pattern: value });
+      } else if (key === 'crawl-delay') {
+        const delay = parseFloat(value);
+        if (!isNaN(delay)) current.crawlDelay = delay;
+      }
+    }
+
+    return groups;
+  }
+}
+
+/**
+ * Fetches and caches robots.txt per origin.
+ */
+export class RobotsCache {
+  private cache: Map<string, { robots: RobotsTxt; fetchedAt: number }> = new Map();
+  private pending: Map<string, Promise<RobotsTxt>> = new Map();
+
+  constructor(private ttlMs: number = 24 * 60 * 60 * 1000) {}
+
+  async get(url: string): Promise<RobotsTxt> {
+    const origin = new URL(url).origin;
+    const cached = this.cache.get(origin);
+    if (cached && Date.now() - cached.fetchedAt < this.ttlMs) {
+      return cached.robots;
+    }
+
+    // Collectors run in parallel; share one in-flight request per origin
+    let pending = this.pending.get(origin);
+    if (!pending) {
+      pending = this.fetchRobots(origin).finally(() => this.pending.delete(origin));
+      this.pending.set(origin, pending);
+    }
+    return pending;
+  }
+
+  async isAllowed(url: string, userAgent: string = USER_AGENT): Promise<boolean> {
+    const robots = await this.get(url);
+    return robots.isAllowed(url, userAgent);
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+
+  private async fetchRobots(origin: string): Promise<RobotsTxt> {
+    let robots: RobotsTxt;
+
+    try {
+      const response = await getCassette().fetch(`${origin}/robots.txt`, {
+        headers: { 'User-Agent': USER_AGENT },
+      });
+
+      if (response.ok) {
+        robots = new RobotsTxt(await response.text());
+      } else if (response.status >= 400 && response.status < 500) {
+        robots = RobotsTxt.allowAll();
+      } else {
+        robots = RobotsTxt.disallowAll();
+      }
+    } catch (error) {
+      console.warn(`Could not fetch ${origin}/robots.txt, treating site as disallowed:`, error);
+      robots = RobotsTxt.disallowAll();
+    }
+
+    this.cache.set(origin, { robots, fetchedAt: Date.now() });
+    return robots;
+  }
+}
+
+// Singleton instance
+let robotsInstance: RobotsCache | null = null;
+
+export function getRobotsCache(): RobotsCache {
+  if (!robotsInstance) {
+    robotsInstance = new RobotsCache();
+  }
+  return robotsInstance;
+}
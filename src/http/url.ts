@@ -0,0 +1,26 @@
+// Query parameters that only track where a visitor came from
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid|ref|ref_src|source)$/i;
+
+/**
+ * Key for "is this the same design page": https and http, `www.`, a trailing
+ * slash, the fragment, tracking parameters and parameter order do not matter.
+ * Strings that are not URLs are returned trimmed.
+ */
+export function canonicalUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return parsed.href;
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = new URLSearchParams(params).toString();
+  const host = parsed.host.replace(/^www\./, '');
+  const pathname = parsed.pathname.replace(/\/+$/, '');
+
+  return `https://${host}${pathname}${query ? `?${query}` : ''}`;
+}
@@ -5,6 +5,7 @@ export * from './collectors/index.js';
 export * from './analyzers/index.js';
 export * from './generators/index.js';
 export * from './storage/index.js';
+export * from './http/index.js';
 export * from './agents/index.js';
 
 // Default export
@@ -0,0 +1,302 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { fileURLToPath } from 'url';
+import sharp from 'sharp';
+import { getCassette, getRateLimiter, getRobotsCache, USER_AGENT } from '../http/index.js';
+
+export interface AssetManagerOptions {
+  dir?: string;
+  // Widths of the WebP thumbnails made for every image; images are never enlarged
+  thumbnailWidths?: number[];
+  // Larger images are not downloaded
+  maxFileBytes?: number;
+  // Nothing new is written once originals and thumbnails take this much space
+  maxTotalBytes?: number;
+}
+
+/**
+ * A local copy of one of a design's images, with its thumbnails
+ */
+export interface DesignAsset {
+  // The image URL the copy was downloaded from
+  url: string;
+  // SHA-256 of the image bytes, which names the files
+  hash: string;
+  // Paths are relative to the asset directory
+  file: string;
+  width: number;
+  height: number;
+  format: string;
+  bytes: number;
+  // Thumbnail width → file
+  thumbnails: Record<string, string>;
+  cachedAt: Date;
+}
+
+export interface AssetCacheStats {
+  files: number;
+  totalBytes: number;
+  maxTotalBytes: number;
+}
+
+export interface AssetGcResult {
+  // Files removed (or, for a dry run, that would be), relative to the asset directory
+  removed: string[];
+  freedBytes: number;
+}
+
+export const DEFAULT_ASSET_DIR = './data/assets';
+export const DEFAULT_THUMBNAIL_WIDTHS = [160, 480, 960];
+export const DEFAULT_ASSET_MAX_FILE_BYTES = 15 * 1024 * 1024;
+export const DEFAULT_ASSET_MAX_TOTAL_BYTES = 1024 * 1024 * 1024;
+
+const ASSET_DIRS = ['originals', 'thumbnails'];
+
+/**
+ * Downloads design images into `<dir>/originals/<hash>.<ext>` and writes WebP
+ * thumbnails to `<dir>/thumbnails/<hash>-<width>.webp`. Content-hash names mean
+ * an image shared by several designs, or downloaded twice, is stored once.
+ */
+export class AssetManager {
+  private dir: string;
+  private thumbnailWidths: number[];
+  private maxFileBytes: number;
+  private maxTotalBytes: number;
+  // Bytes on disk, counted on first use
+  private totalBytes: number | null = null;
+
+  constructor(options: AssetManagerOptions = {}) {
+    this.dir = options.dir || DEFAULT_ASSET_DIR;
+    this.thumbnailWidths = [...new Set(options.thumbnailWidths || DEFAULT_THUMBNAIL_WIDTHS)].sort((a, b) => a - b);
+    this.maxFileBytes = options.maxFileBytes ?? DEFAULT_ASSET_MAX_FILE_BYTES;
+    this.maxTotalBytes = options.maxTotalBytes ?? DEFAULT_ASSET_MAX_TOTAL_BYTES;
+  }
+
+  /**
+   * The same limits and thumbnail sizes for another directory
+   */
+  withDir(dir: string): AssetManager {
+    return new AssetManager({
+      dir,
+      thumbnailWidths: this.thumbnailWidths,
+      maxFileBytes: this.maxFileBytes,
+      maxTotalBytes: this.maxTotalBytes,
+    });
+  }
+
+  /**
+   * Download an image (http(s) or file URL) and store it with its thumbnails.
+   * `referer` is sent for hosts that refuse hotlinked requests. Returns null when
+   * the download fails, is not an image or does not fit the size limits.
+   */
+  async cacheImage(url: string, options: { referer?: string } = {}): Promise<DesignAsset | null> {
+    try {
+      const buffer = await this.download(url, options.referer);
+      return buffer ? await this.store(url, buffer) : null;
+    } catch (error) {
+      console.error(`Error caching image ${url}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Absolute path of the smallest thumbnail at least `width` wide, the largest
+   * thumbnail when none is, or the original when no width is given
+   */
+  resolveFile(asset: DesignAsset, width?: number): string {
+    if (width === undefined) return path.resolve(this.dir, asset.file);
+
+    const thumbnails = Object.entries(asset.thumbnails)
+      .map(([size, file]) => ({ size: Number(size), file }))
+      .sort((a, b) => a.size - b.size);
+    const match = thumbnails.find(thumb => thumb.size >= width) || thumbnails[thumbnails.length - 1];
+    return path.resolve(this.dir, match?.file || asset.file);
+  }
+
+  async stats(): Promise<AssetCacheStats> {
+    const files = await this.listFiles();
+    this.totalBytes = files.reduce((sum, file) => sum + file.bytes, 0);
+    return { files: files.length, totalBytes: this.totalBytes, maxTotalBytes: this.maxTotalBytes };
+  }
+
+  /**
+   * Delete originals and thumbnails whose hash is not in `referencedHashes`
+   */
+  async collectGarbage(referencedHashes: Set<string>, options: { dryRun?: boolean } = {}): Promise<AssetGcResult> {
+    const orphans = (await this.listFiles()).filter(file => !referencedHashes.has(file.hash));
+
+    if (!options.dryRun) {
+      for (const orphan of orphans) {
+        await fs.rm(path.join(this.dir, orphan.file), { force: true });
+      }
+      this.totalBytes = null;
+    }
+
+    return {
+      removed: orphans.map(orphan => orphan.file),
+      freedBytes: orphans.reduce((sum, orphan) => sum + orphan.bytes, 0),
+    };
+  }
+
+  private async download(url: string, referer?: string): Promise<Buffer | null> {
+    const parsed = new URL(url);
+
+    if (parsed.protocol === 'file:') {
+      const filePath = fileURLToPath(parsed);
+      const { size } = await fs.stat(filePath);
+      return this.withinFileLimit(url, size) ? fs.readFile(filePath) : null;
+    }
+
+    // Replayed responses never touch the network, so robots.txt and rate limits do not apply
+    if (getCassette().getMode() !== 'replay') {
+      const robots = await getRobotsCache().get(url);
+      if (!robots.isAllowed(url, USER_AGENT)) {
+        console.warn(`Skipping ${url}: disallowed by robots.txt`);
+        return null;
+      }
+      await getRateLimiter().acquire(url, undefined, robots.getCrawlDelay(USER_AGENT));
+    }
+    // Not through the HTTP cache: the content-hashed originals already make downloads
+    // idempotent, and caching would store every image twice
+    const response = await getCassette().fetch(url, {
+      headers: {
+        'User-Agent': USER_AGENT,
+        Accept: 'image/avif,image/webp,image/*;q=0.8',
+        ...(referer ? { Referer: referer } : {}),
+      },
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const declared = Number(response.headers.get('content-length'));
+    if (declared && !this.withinFileLimit(url, declared)) {
+      await response.body?.cancel();
+      return null;
+    }
+    const buffer = Buffer.from(await response.arrayBuffer());
+    return this.withinFileLimit(url, buffer.length) ? buffer : null;
+  }
+
+  private withinFileLimit(url: string, bytes: number): boolean {
+    if (bytes <= this.maxFileBytes) return true;
+    console.warn(`Skipping ${url}: ${formatBytes(bytes)} is over the ${formatBytes(this.maxFileBytes)} per-image limit`);
+    return false;
+  }
+
+  private async store(url: string, buffer: Buffer): Promise<DesignAsset | null> {
+    // Also rejects downloads that are not images (error pages, placeholders served as HTML)
+    const metadata = await sharp(buffer).metadata();
+    if (!metadata.width || !metadata.height || !metadata.format) {
+      throw new Error('Not a readable image');
+    }
+
+    const hash = createHash('sha256').update(buffer).digest('hex');
+    const file = `originals/${hash}.${metadata.format === 'jpeg' ? 'jpg' : metadata.format}`;
+    const thumbnails: Record<string, string> = {};
+    const writes: Array<{ file: string; data: () => Promise<Buffer> }> = [];
+
+    if (!(await this.exists(file))) {
+      writes.push({ file, data: async () => buffer });
+    }
+    for (const width of this.thumbnailWidths) {
+      const thumbnail = `thumbnails/${hash}-${width}.webp`;
+      thumbnails[width] = thumbnail;
+      if (await this.exists(thumbnail)) continue;
+      writes.push({
+        file: thumbnail,
+        data: () => sharp(buffer).resize({ width, withoutEnlargement: true }).webp({ quality: 80 }).toBuffer(),
+      });
+    }
+
+    const outputs = await Promise.all(writes.map(async write => ({ file: write.file, data: await write.data() })));
+    const newBytes = outputs.reduce((sum, output) => sum + output.data.length, 0);
+    const used = await this.usedBytes();
+    if (used + newBytes > this.maxTotalBytes) {
+      console.warn(`Asset cache is full (${formatBytes(used)} of ${formatBytes(this.maxTotalBytes)}); skipping ${url}. Run \`design-scout assets gc\` or raise the limit.`);
+      return null;
+    }
+
+    for (const dir of ASSET_DIRS) {
+      await fs.mkdir(path.join(this.dir, dir), { recursive: true });
+    }
+    for (const output of outputs) {
+      await fs.writeFile(path.join(this.dir, output.file), output.data);
+    }
+    this.totalBytes = used + newBytes;
+
+    return {
+      url,
+      hash,
+      file,
+      width: metadata.width,
+      height: metadata.height,
+      format: metadata.format,
+      bytes: buffer.length,
+      thumbnails,
+      cachedAt: new Date(),
+    };
+  }
+
+  private async usedBytes(): Promise<number> {
+    if (this.totalBytes === null) {
+      await this.stats();
+    }
+    return this.totalBytes!;
+  }
+
+  private async listFiles(): Promise<Array<{ file: string; hash: string; bytes: number }>> {
+    const files: Array<{ file: string; hash: string; bytes: number }> = [];
+
+    for (const dir of ASSET_DIRS) {
+      let names: string[];
+      try {
+        names = await fs.readdir(path.join(this.dir, dir));
+      } catch {
+        continue;
+      }
+      for (const name of names) {
+        const { size } = await fs.stat(path.join(this.dir, dir, name));
+        // <hash>.<ext> or <hash>-<width>.webp
+        files.push({ file: `${dir}/${name}`, hash: name.split(/[.-]/)[0], bytes: size });
+      }
+    }
+    return files;
+  }
+
+  private async exists(file: string): Promise<boolean> {
+    try {
+      await fs.access(path.join(this.dir, file));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.ceil(bytes / 1024)} KB`;
+}
+
+// Shared instance for the default data directory
+let assetManagerInstance: AssetManager | null = null;
+
+/**
+ * Configure the shared asset manager. The directory defaults to DESIGN_SCOUT_ASSET_DIR.
+ */
+export function configureAssetManager(options: AssetManagerOptions = {}): AssetManager {
+  assetManagerInstance = new AssetManager({
+    ...options,
+    dir: options.dir || process.env.DESIGN_SCOUT_ASSET_DIR || DEFAULT_ASSET_DIR,
+  });
+  return assetManagerInstance;
+}
+
+export function getAssetManager(): AssetManager {
+  if (!assetManagerInstance) {
+    return configureAssetManager();
+  }
+  return assetManagerInstance;
+}
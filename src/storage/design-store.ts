@@ -1,12 +1,27 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import type { DesignItem, DesignTrend, DesignCategory, DesignStyle, DesignSource } from '../types/index.js';
+import type {
+  DesignItem,
+  DesignTrend,
+  DesignCategory,
+  DesignStyle,
+  DesignSource,
+  DesignerProfile,
+  InvalidDesignItem,
+  SourceRunMetrics,
+} from '../types/index.js';
+import { DesignItemSchema } from '../types/index.js';
+import { canonicalUrl } from '../http/index.js';
+import { repairDesignItem } from './quarantine.js';
+import type { DesignAsset } from './asset-manager.js';
 
 export interface StoredDesign extends DesignItem {
   savedAt: Date;
   favorite: boolean;
   notes?: string;
   collections: string[];
+  // Local copies of the design's images, see AssetManager
+  assets?: DesignAsset[];
 }
 
 export interface Collection {
@@ -31,14 +46,65 @@ export interface CollectionHistory {
   sources: DesignSource[];
   itemCount: number;
   collectedAt: Date;
+  // Per-source collector metrics; absent on entries written before they were recorded
+  sourceMetrics?: SourceRunMetrics[];
+  // Items that were not in the store before this run, and ones that were
+  newItems?: number;
+  updatedItems?: number;
 }
 
+/**
+ * An item that failed validation, kept out of `designs` until it is repaired
+ */
+export interface QuarantinedItem {
+  id: string;
+  // The item as collected or imported, plus any manual fixes
+  item: Record<string, unknown>;
+  error: string;
+  origin: 'collect' | 'import';
+  quarantinedAt: Date;
+}
+
+/**
+ * A designer or studio, the same across sources when the name matches
+ */
+export interface Designer {
+  // Normalized name, see designerId()
+  id: string;
+  name: string;
+  profiles: DesignerProfile[];
+  followed: boolean;
+  followedAt?: Date;
+  // When a following run last read their profiles
+  lastCheckedAt?: Date;
+}
+
+/**
+ * A designer with figures aggregated from their stored works
+ */
+export interface DesignerSummary extends Designer {
+  designIds: string[];
+  works: number;
+  sources: DesignSource[];
+  // Most frequent first
+  topStyles: DesignStyle[];
+  // Mean engagement score of the works that have one
+  averageEngagement?: number;
+  latestWorkAt?: Date;
+}
+
+export type QuarantineRepairResult =
+  | { repaired: true; design: StoredDesign }
+  | { repaired: false; error: string };
+
 export interface StoreData {
   designs: Record<string, StoredDesign>;
   collections: Record<string, Collection>;
   favorites: string[];
   trendCache: TrendCache | null;
   history: CollectionHistory[];
+  quarantine: Record<string, QuarantinedItem>;
+  designers: Record<string, Designer>;
   version: string;
 }
 
@@ -55,20 +121,43 @@ export interface SearchOptions {
   sortOrder?: 'asc' | 'desc';
 }
 
-const DEFAULT_STORE: StoreData = {
-  designs: {},
-  collections: {},
-  favorites: [],
-  trendCache: null,
-  history: [],
-  version: '1.0.0',
-};
+/**
+ * A fresh, empty store; each call returns new objects so stores never share state
+ */
+function emptyStore(): StoreData {
+  return {
+    designs: {},
+    collections: {},
+    favorites: [],
+    trendCache: null,
+    history: [],
+    quarantine: {},
+    designers: {},
+    version: '1.0.0',
+  };
+}
+
+/**
+ * Designer key: the name lowercased, without accents, punctuation and spacing
+ */
+export function designerId(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
 
 export class DesignStore {
   private dataDir: string;
   private storePath: string;
   private data: StoreData | null = null;
   private saveDebounce: NodeJS.Timeout | null = null;
+  // Canonical sourceUrl → design id, built on first use
+  private urlIndex: Map<string, string> | null = null;
 
   constructor(dataDir: string = './data') {
     this.dataDir = dataDir;
@@ -80,6 +169,7 @@ export class DesignStore {
    */
   async init(): Promise<void> {
     await fs.mkdir(this.dataDir, { recursive: true });
+    this.urlIndex = null;
 
     try {
       const content = await fs.readFile(this.storePath, 'utf-8');
@@ -87,11 +177,31 @@ export class DesignStore {
 
       // Migrate if needed
       if (this.data && !this.data.version) {
-        this.data = { ...DEFAULT_STORE, ...this.data, version: '1.0.0' };
+        this.data = { ...emptyStore(), ...this.data, version: '1.0.0' };
         await this.save();
       }
+      // Stores written before the quarantine existed
+      if (this.data && !this.data.quarantine) {
+        this.data.quarantine = {};
+      }
+      // Stores written before designers were tracked
+      if (this.data && !this.data.designers) {
+        this.data.designers = {};
+        this.indexDesigners(Object.values(this.data.designs));
+      }
+      // Re-saved designs used to take the new collector ID while staying under their old key
+      if (this.data) {
+        let repaired = 0;
+        for (const [id, design] of Object.entries(this.data.designs)) {
+          if (design.id !== id) {
+            design.id = id;
+            repaired++;
+          }
+        }
+        if (repaired) await this.save();
+      }
     } catch {
-      this.data = { ...DEFAULT_STORE };
+      this.data = emptyStore();
       await this.save();
     }
   }
@@ -106,6 +216,22 @@ export class DesignStore {
     return this.data;
   }
 
+  /**
+   * Lookup from canonical sourceUrl to design id; the first design wins when
+   * several share a URL
+   */
+  private getUrlIndex(): Map<string, string> {
+    if (!this.urlIndex) {
+      this.urlIndex = new Map();
+      for (const [id, design] of Object.entries(this.ensureInit().designs)) {
+        const url = canonicalUrl(design.sourceUrl);
+        if (!this.urlIndex.has(url)) this.urlIndex.set(url, id);
+      }
+    }
+    return this.urlIndex;
+  }
+
+
   /**
    * Save store to disk (debounced)
    */
@@ -141,18 +267,23 @@ export class DesignStore {
     const data = this.ensureInit();
 
     // Check for duplicate by URL
-    const existing = Object.values(data.designs).find(d => d.sourceUrl === item.sourceUrl);
-    if (existing) {
-      // Update existing
+    const url = canonicalUrl(item.sourceUrl);
+    const urlIndex = this.getUrlIndex();
+    const existingId = urlIndex.get(url);
+    const existing = existingId ? data.designs[existingId] : undefined;
+    if (existingId && existing) {
+      // Update existing; it keeps its ID so favorites, collections and assets still find it
       const updated: StoredDesign = {
         ...existing,
         ...item,
+        id: existingId,
         savedAt: existing.savedAt,
         favorite: options?.favorite ?? existing.favorite,
         notes: options?.notes ?? existing.notes,
         collections: options?.collections ?? existing.collections,
       };
-      data.designs[existing.id] = updated;
+      data.designs[existingId] = updated;
+      this.indexDesigners([updated]);
       await this.save();
       return updated;
     }
@@ -167,6 +298,8 @@ export class DesignStore {
     };
 
     data.designs[item.id] = stored;
+    urlIndex.set(url, item.id);
+    this.indexDesigners([stored]);
     await this.save();
     return stored;
   }
@@ -182,6 +315,42 @@ export class DesignStore {
     return results;
   }
 
+  /**
+   * Canonical sourceUrls of all stored designs, for incremental collection
+   */
+  getKnownUrls(): Set<string> {
+    return new Set(this.getUrlIndex().keys());
+  }
+
+  /**
+   * Designs first saved at or after `since`; updates of older designs do not count
+   */
+  getDesignsSavedSince(since: Date): StoredDesign[] {
+    const data = this.ensureInit();
+    return Object.values(data.designs).filter(design => new Date(design.savedAt) >= since);
+  }
+
+  /**
+   * Record the local copies of a design's images, replacing earlier copies of the same URLs
+   */
+  async setDesignAssets(id: string, assets: DesignAsset[]): Promise<StoredDesign | null> {
+    const design = this.ensureInit().designs[id];
+    if (!design) return null;
+
+    const urls = new Set(assets.map(asset => asset.url));
+    design.assets = [...(design.assets || []).filter(asset => !urls.has(asset.url)), ...assets];
+    await this.save();
+    return design;
+  }
+
+  /**
+   * Content hashes of every asset a design still references, for garbage collection
+   */
+  getAssetHashes(): Set<string> {
+    const data = this.ensureInit();
+    return new Set(Object.values(data.designs).flatMap(design => (design.assets || []).map(asset => asset.hash)));
+  }
+
   /**
    * Get a design by ID
    */
@@ -190,6 +359,13 @@ export class DesignStore {
     return data.designs[id] || null;
   }
 
+  /**
+   * Stored designs with the keys they are stored under
+   */
+  getDesignEntries(): Array<[string, StoredDesign]> {
+    return Object.entries(this.ensureInit().designs);
+  }
+
   /**
    * Get all designs
    */
@@ -272,6 +448,7 @@ export class DesignStore {
     const data = this.ensureInit();
     if (data.designs[id]) {
       delete data.designs[id];
+      this.urlIndex = null;
       data.favorites = data.favorites.filter(f => f !== id);
 
       // Remove from collections
@@ -522,6 +699,8 @@ export class DesignStore {
     designsBySource: Record<string, number>;
     designsByCategory: Record<string, number>;
     designsByStyle: Record<string, number>;
+    // Designs first saved in the last 7 days
+    newThisWeek: number;
   } {
     const data = this.ensureInit();
     const designs = Object.values(data.designs);
@@ -545,6 +724,7 @@ export class DesignStore {
       designsBySource,
       designsByCategory,
       designsByStyle,
+      newThisWeek: this.getDesignsSavedSince(new Date(Date.now() - WEEK_MS)).length,
     };
   }
 
@@ -564,9 +744,9 @@ export class DesignStore {
     const data = this.ensureInit();
 
     if (merge) {
-      // Merge designs
+      // Merge designs; invalid ones go to the quarantine
       if (importData.designs) {
-        for (const [id, design] of Object.entries(importData.designs)) {
+        for (const [id, design] of Object.entries(this.validateImported(importData.designs))) {
           if (!data.designs[id]) {
             data.designs[id] = design;
           }
@@ -586,19 +766,270 @@ export class DesignStore {
       if (importData.favorites) {
         data.favorites = [...new Set([...data.favorites, ...importData.favorites])];
       }
+
+      // Merge quarantine
+      if (importData.quarantine) {
+        for (const [id, entry] of Object.entries(importData.quarantine)) {
+          data.quarantine[id] = data.quarantine[id] || entry;
+        }
+      }
+
+      // Merge designers, keeping local follow state
+      if (importData.designers) {
+        for (const [id, designer] of Object.entries(importData.designers)) {
+          data.designers[id] = data.designers[id] || designer;
+        }
+      }
     } else {
       // Replace all
-      this.data = { ...DEFAULT_STORE, ...importData };
+      this.data = { ...emptyStore(), ...importData };
+      this.data.designs = this.validateImported(importData.designs || {});
     }
+    this.indexDesigners(Object.values(this.ensureInit().designs));
+    this.urlIndex = null;
 
     await this.save();
   }
 
+  /**
+   * Keep the designs that pass DesignItemSchema; quarantine the rest
+   */
+  private validateImported(designs: Record<string, StoredDesign>): Record<string, StoredDesign> {
+    const valid: Record<string, StoredDesign> = {};
+    const invalid: InvalidDesignItem[] = [];
+
+    for (const [id, design] of Object.entries(designs)) {
+      const result = DesignItemSchema.safeParse(design);
+      if (result.success) {
+        valid[id] = { ...design, ...result.data };
+      } else {
+        invalid.push({ item: design, error: this.formatIssues(result.error.issues) });
+      }
+    }
+
+    this.addToQuarantine(invalid, 'import');
+    return valid;
+  }
+
+  // ==================== Designers ====================
+
+  /**
+   * Designers with their aggregated works, most prolific first
+   */
+  getDesigners(options: { followedOnly?: boolean } = {}): DesignerSummary[] {
+    const data = this.ensureInit();
+    const works = this.worksByDesigner();
+
+    return Object.values(data.designers)
+      .filter(designer => !options.followedOnly || designer.followed)
+      .map(designer => this.summarizeDesigner(designer, works.get(designer.id) || []))
+      .sort((a, b) => b.works - a.works || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Find a designer by ID, name or profile URL
+   */
+  getDesigner(idOrName: string): DesignerSummary | null {
+    const data = this.ensureInit();
+    const url = canonicalUrl(idOrName);
+    const designer = data.designers[idOrName] ||
+      data.designers[designerId(idOrName)] ||
+      Object.values(data.designers).find(d => d.profiles.some(profile => canonicalUrl(profile.url) === url));
+    if (!designer) return null;
+
+    return this.summarizeDesigner(designer, this.worksByDesigner().get(designer.id) || []);
+  }
+
+  /**
+   * Follow a designer, adding any new profiles. Designers not seen in any work yet are created.
+   */
+  async followDesigner(name: string, profiles: DesignerProfile[] = []): Promise<Designer> {
+    const designer = this.upsertDesigner(name, profiles);
+    if (!designer.followed) {
+      designer.followed = true;
+      designer.followedAt = new Date();
+    }
+    await this.save();
+    return designer;
+  }
+
+  /**
+   * Stop following a designer; their works and profiles stay
+   */
+  async unfollowDesigner(idOrName: string): Promise<boolean> {
+    const found = this.getDesigner(idOrName);
+    if (!found?.followed) return false;
+
+    const designer = this.ensureInit().designers[found.id];
+    designer.followed = false;
+    designer.followedAt = undefined;
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Record that a following run read these designers' profiles
+   */
+  async markDesignersChecked(ids: string[]): Promise<void> {
+    const data = this.ensureInit();
+    const now = new Date();
+    for (const id of ids) {
+      if (data.designers[id]) data.designers[id].lastCheckedAt = now;
+    }
+    await this.save();
+  }
+
+  /**
+   * Create or update designers from the designer fields of stored works
+   */
+  private indexDesigners(designs: StoredDesign[]): void {
+    for (const design of designs) {
+      if (!design.designer?.trim()) continue;
+      const profiles = design.designerUrl ? [{ source: design.source, url: design.designerUrl }] : [];
+      this.upsertDesigner(design.designer, profiles);
+    }
+  }
+
+  private upsertDesigner(name: string, profiles: DesignerProfile[]): Designer {
+    const data = this.ensureInit();
+    const id = designerId(name) || name.trim();
+    const designer = data.designers[id] || (data.designers[id] = { id, name: name.trim(), profiles: [], followed: false });
+
+    for (const profile of profiles) {
+      const url = canonicalUrl(profile.url);
+      if (!designer.profiles.some(p => p.source === profile.source && canonicalUrl(p.url) === url)) {
+        designer.profiles.push(profile);
+      }
+    }
+    return designer;
+  }
+
+  private worksByDesigner(): Map<string, StoredDesign[]> {
+    const works = new Map<string, StoredDesign[]>();
+    for (const design of Object.values(this.ensureInit().designs)) {
+      if (!design.designer?.trim()) continue;
+      const id = designerId(design.designer) || design.designer.trim();
+      works.set(id, [...(works.get(id) || []), design]);
+    }
+    return works;
+  }
+
+  private summarizeDesigner(designer: Designer, works: StoredDesign[]): DesignerSummary {
+    const styleCounts = new Map<DesignStyle, number>();
+    for (const work of works) {
+      for (const style of work.styles) styleCounts.set(style, (styleCounts.get(style) || 0) + 1);
+    }
+    const scores = works.map(work => work.engagementScore).filter((score): score is number => score !== undefined);
+    const dates = works.map(work => new Date(work.publishedAt || work.collectedAt).getTime()).filter(time => !isNaN(time));
+
+    return {
+      ...designer,
+      designIds: works.map(work => work.id),
+      works: works.length,
+      sources: [...new Set([...works.map(work => work.source), ...designer.profiles.map(profile => profile.source)])],
+      topStyles: [...styleCounts.entries()].sort((a, b) => b[1] - a[1]).slice(0, 5).map(([style]) => style),
+      averageEngagement: scores.length
+        ? Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 10) / 10
+        : undefined,
+      latestWorkAt: dates.length ? new Date(Math.max(...dates)) : undefined,
+    };
+  }
+
+  // ==================== Quarantine Operations ====================
+
+  /**
+   * Put items that failed validation into the quarantine
+   */
+  async quarantineItems(items: InvalidDesignItem[], origin: QuarantinedItem['origin']): Promise<QuarantinedItem[]> {
+    const entries = this.addToQuarantine(items, origin);
+    if (entries.length) await this.save();
+    return entries;
+  }
+
+  /**
+   * Quarantined items, newest first
+   */
+  getQuarantine(): QuarantinedItem[] {
+    const data = this.ensureInit();
+    return Object.values(data.quarantine)
+      .sort((a, b) => new Date(b.quarantinedAt).getTime() - new Date(a.quarantinedAt).getTime());
+  }
+
+  getQuarantined(id: string): QuarantinedItem | null {
+    const data = this.ensureInit();
+    return data.quarantine[id] || null;
+  }
+
+  /**
+   * Apply manual fixes and the automatic repairs, then validate again. A valid
+   * item is saved as a design and leaves the quarantine; otherwise the fixes are
+   * kept and the error updated.
+   */
+  async repairQuarantined(id: string, fixes: Record<string, unknown> = {}): Promise<QuarantineRepairResult> {
+    const data = this.ensureInit();
+    const entry = data.quarantine[id];
+    if (!entry) {
+      throw new Error(`No quarantined item with ID ${id}`);
+    }
+
+    const item = { ...entry.item, ...fixes };
+    const result = DesignItemSchema.safeParse(repairDesignItem(item));
+
+    if (!result.success) {
+      const error = this.formatIssues(result.error.issues);
+      data.quarantine[id] = { ...entry, item, error };
+      await this.save();
+      return { repaired: false, error };
+    }
+
+    delete data.quarantine[id];
+    // Imported designs keep their favorite flag, notes and collections
+    const design = await this.saveDesign(result.data, {
+      favorite: typeof item.favorite === 'boolean' ? item.favorite : undefined,
+      notes: typeof item.notes === 'string' ? item.notes : undefined,
+      collections: Array.isArray(item.collections) ? item.collections as string[] : undefined,
+    });
+    return { repaired: true, design };
+  }
+
+  async deleteQuarantined(id: string): Promise<boolean> {
+    const data = this.ensureInit();
+    if (!data.quarantine[id]) return false;
+    delete data.quarantine[id];
+    await this.save();
+    return true;
+  }
+
+  async clearQuarantine(): Promise<number> {
+    const data = this.ensureInit();
+    const count = Object.keys(data.quarantine).length;
+    data.quarantine = {};
+    await this.save();
+    return count;
+  }
+
+  private addToQuarantine(items: InvalidDesignItem[], origin: QuarantinedItem['origin']): QuarantinedItem[] {
+    const data = this.ensureInit();
+
+    return items.map(({ item, error }) => {
+      const raw = item && typeof item === 'object' ? item as Record<string, unknown> : { value: item };
+      const id = typeof raw.id === 'string' && raw.id ? raw.id : `quarantine-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      const entry: QuarantinedItem = { id, item: raw, error, origin, quarantinedAt: new Date() };
+      data.quarantine[id] = entry;
+      return entry;
+    });
+  }
+
+  private formatIssues(issues: Array<{ path: Array<string | number>; message: string }>): string {
+    return issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ');
+  }
+
   /**
    * Clear all data
    */
   async clear(): Promise<void> {
-    this.data = { ...DEFAULT_STORE };
+    this.data = emptyStore();
+    this.urlIndex = null;
     await this.save();
   }
 }
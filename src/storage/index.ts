@@ -1,4 +1,15 @@
-export { DesignStore, getDesignStore } from './design-store.js';
+export { DesignStore, getDesignStore, designerId } from './design-store.js';
+export { repairDesignItem } from './quarantine.js';
+export {
+  AssetManager,
+  configureAssetManager,
+  getAssetManager,
+  DEFAULT_ASSET_DIR,
+  DEFAULT_THUMBNAIL_WIDTHS,
+  DEFAULT_ASSET_MAX_FILE_BYTES,
+  DEFAULT_ASSET_MAX_TOTAL_BYTES,
+} from './asset-manager.js';
+export type { AssetManagerOptions, DesignAsset, AssetCacheStats, AssetGcResult } from './asset-manager.js';
 export type {
   StoredDesign,
   Collection,
@@ -6,4 +17,8 @@ export type {
   CollectionHistory,
   StoreData,
   SearchOptions,
+  QuarantinedItem,
+  QuarantineRepairResult,
+  Designer,
+  DesignerSummary,
 } from './design-store.js';
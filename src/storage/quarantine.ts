@@ -0,0 +1,82 @@
+import { DesignCategorySchema, DesignStyleSchema } from '../types/index.js';
+
+const HEX_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const RGB_PATTERN = /^rgba?\(\s*(\d{1,3})[\s,]+(\d{1,3})[\s,]+(\d{1,3})/i;
+
+/**
+ * Best-effort fixes for the usual reasons items fail DesignItemSchema: relative
+ * or protocol-relative URLs, colors in rgb() or without '#', unknown styles and
+ * categories, numbers as strings and unparseable dates. What cannot be fixed is
+ * left alone, so the item still fails validation.
+ */
+export function repairDesignItem(raw: Record<string, unknown>): Record<string, unknown> {
+  const item: Record<string, unknown> = { ...raw };
+  const base = absoluteUrl(item.sourceUrl);
+
+  if (typeof item.title !== 'string' || !item.title.trim()) item.title = 'Untitled';
+  if (typeof item.description !== 'string') item.description = '';
+  if (base) item.sourceUrl = base;
+
+  const images = asArray(item.imageUrls).map(url => absoluteUrl(url, base)).filter((url): url is string => !!url);
+  item.imageUrls = [...new Set(images)];
+  item.thumbnailUrl = absoluteUrl(item.thumbnailUrl, base) || images[0];
+  item.designerUrl = absoluteUrl(item.designerUrl, base);
+  if (typeof item.designer !== 'string') item.designer = undefined;
+
+  item.colors = [...new Set(asArray(item.colors).map(toHex).filter((hex): hex is string => !!hex))];
+  item.styles = asArray(item.styles).filter(style => DesignStyleSchema.safeParse(style).success);
+  item.tags = asArray(item.tags).filter((tag): tag is string => typeof tag === 'string');
+  if (!DesignCategorySchema.safeParse(item.category).success) item.category = 'web';
+
+  item.likes = toCount(item.likes);
+  item.views = toCount(item.views);
+  item.publishedAt = toDate(item.publishedAt);
+  item.collectedAt = toDate(item.collectedAt) || new Date();
+
+  if (typeof item.id !== 'string' || !item.id) {
+    item.id = `${typeof item.source === 'string' ? item.source : 'design'}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  return item;
+}
+
+function asArray(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  return value === undefined || value === null || value === '' ? [] : [value];
+}
+
+function absoluteUrl(value: unknown, base?: string): string | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const url = value.trim().startsWith('//') ? `https:${value.trim()}` : value.trim();
+  try {
+    const resolved = new URL(url, base);
+    return /^(https?|file):$/.test(resolved.protocol) ? resolved.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function toHex(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const color = value.trim();
+
+  const hex = color.match(HEX_PATTERN);
+  if (hex) return `#${hex[1]}`;
+
+  const rgb = color.match(RGB_PATTERN);
+  if (rgb) {
+    return `#${rgb.slice(1, 4).map(v => Math.min(255, Number(v)).toString(16).padStart(2, '0')).join('')}`;
+  }
+  return undefined;
+}
+
+function toCount(value: unknown): number | undefined {
+  const count = typeof value === 'string' ? Number(value.replace(/[,\s]/g, '')) : value;
+  return typeof count === 'number' && isFinite(count) && count >= 0 ? count : undefined;
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  return isNaN(date.getTime()) ? undefined : date;
+}
@@ -1,6 +1,6 @@
 import { z } from 'zod';
 
-export const DesignSourceSchema = z.enum([
+export const BuiltinDesignSourceSchema = z.enum([
   'dribbble',
   'behance',
   'awwwards',
@@ -13,9 +13,19 @@ export const DesignSourceSchema = z.enum([
   'pinterest',
   'layers',
   'producthunt',
+  'local',
+  'feeds',
 ]);
 
-export type DesignSource = z.infer<typeof DesignSourceSchema>;
+export type BuiltinDesignSource = z.infer<typeof BuiltinDesignSourceSchema>;
+
+// Built-in sources plus any ID registered through CollectorFactory.register()
+export const DesignSourceSchema = z.union([
+  BuiltinDesignSourceSchema,
+  z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Source IDs must be lowercase kebab-case'),
+]);
+
+export type DesignSource = BuiltinDesignSource | (string & {});
 
 export const DesignCategorySchema = z.enum([
   'web',
@@ -67,10 +77,97 @@ export interface DesignItem {
   tags: string[];
   likes?: number;
   views?: number;
+  // Likes/views relative to the other items of the same source, 0-100 (see scoreEngagement)
+  engagementScore?: number;
+  publishedAt?: Date;
   collectedAt: Date;
   metadata?: Record<string, unknown>;
 }
 
+export const HexColorSchema = z.string().regex(/^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i, 'Expected a hex color');
+
+// Absolute http(s) URLs, or file:// for designs on disk
+const ItemUrlSchema = z.string().refine(url => {
+  try {
+    return ['http:', 'https:', 'file:'].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}, 'Expected an absolute http(s) or file URL');
+
+/**
+ * Runtime check for DesignItem, applied where items enter the store
+ * (CollectorFactory results and DesignStore.import). Dates may be ISO strings.
+ */
+export const DesignItemSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string(),
+  source: DesignSourceSchema,
+  sourceUrl: ItemUrlSchema,
+  imageUrls: z.array(ItemUrlSchema),
+  thumbnailUrl: ItemUrlSchema.optional(),
+  designer: z.string().optional(),
+  designerUrl: ItemUrlSchema.optional(),
+  category: DesignCategorySchema,
+  styles: z.array(DesignStyleSchema),
+  colors: z.array(HexColorSchema),
+  tags: z.array(z.string()),
+  likes: z.number().nonnegative().optional(),
+  views: z.number().nonnegative().optional(),
+  engagementScore: z.number().min(0).max(100).optional(),
+  publishedAt: z.coerce.date().optional(),
+  collectedAt: z.coerce.date(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+// An item that failed DesignItemSchema, as it was, with the issues
+export interface InvalidDesignItem {
+  item: unknown;
+  // "path: message" pairs joined with "; "
+  error: string;
+}
+
+// Fields read from an item's detail page during enrichment
+export interface DesignDetails {
+  title?: string;
+  description?: string;
+  imageUrls?: string[];
+  tags?: string[];
+  designer?: string;
+  designerUrl?: string;
+  publishedAt?: Date;
+  colors?: string[];
+  // The live website the gallery entry showcases
+  siteUrl?: string;
+}
+
+export interface TokenCount {
+  value: string;
+  count: number;
+}
+
+/**
+ * Design tokens read from a live website's production CSS.
+ * Kept in `DesignItem.metadata.siteTokens`.
+ */
+export interface SiteTokens {
+  url: string;
+  fetchedAt: string;
+  stylesheets: string[];
+  customProperties: Record<string, string>;
+  // Lowercase #rrggbb, most used first
+  colors: TokenCount[];
+  fontFamilies: TokenCount[];
+  fontFaces: Array<{ family: string; weight?: string; style?: string; src?: string }>;
+  googleFonts: Array<{ family: string; weights: string[] }>;
+  // Pixel values (rem/em converted at 16px), most used first
+  fontSizes: TokenCount[];
+  spacing: TokenCount[];
+  radii: TokenCount[];
+  shadows: TokenCount[];
+}
+
 export interface DesignTrend {
   name: string;
   description: string;
@@ -94,6 +191,9 @@ export interface DesignProposal {
   codeSnippets: CodeSnippet[];
   references: DesignItem[];
   createdAt: Date;
+  // Library tokens the proposal started from, or was compared against
+  designTokens?: DesignTokenSet;
+  tokenComparison?: TokenComparison;
 }
 
 export interface MoodboardItem {
@@ -128,6 +228,65 @@ export interface TypographyRecommendation {
   googleFontsUrl?: string;
 }
 
+export interface ShadowLayer {
+  inset: boolean;
+  offsetX: number;
+  offsetY: number;
+  blur: number;
+  spread: number;
+  color: string;
+}
+
+export interface ShadowToken {
+  name: string;
+  layers: ShadowLayer[];
+  // Ready-to-use CSS box-shadow value
+  css: string;
+}
+
+export interface RadiusToken {
+  name: string;
+  value: string;
+  origin: 'variable' | 'document';
+}
+
+/**
+ * Design tokens imported from a design library such as a Figma file
+ */
+export interface DesignTokenSet {
+  source: 'figma';
+  fileKey?: string;
+  name: string;
+  // Every named color, e.g. "Brand/Primary 500" -> "#3B82F6"
+  colors: Record<string, string>;
+  colorPalette: ColorPalette;
+  // Palette roles no library color could be matched to (they keep defaults)
+  unmappedRoles: Array<keyof Omit<ColorPalette, 'additionalColors'>>;
+  typography: TypographyRecommendation[];
+  shadows: ShadowToken[];
+  radii: RadiusToken[];
+  importedAt: Date;
+}
+
+export interface TokenComparison {
+  colors: Array<{
+    role: keyof Omit<ColorPalette, 'additionalColors'>;
+    proposed: string;
+    library: string;
+    // Closest library color to the proposed one
+    nearest: { name: string; hex: string; distance: number };
+    matches: boolean;
+  }>;
+  typography: Array<{
+    role: TypographyRecommendation['role'];
+    proposed: TypographyRecommendation;
+    library?: TypographyRecommendation;
+    differences: string[];
+  }>;
+  // Share of compared colors and type roles that match the library (0-100)
+  score: number;
+}
+
 export interface LayoutSuggestion {
   name: string;
   description: string;
@@ -145,6 +304,18 @@ export interface CodeSnippet {
   usage: string;
 }
 
+/**
+ * How collectFromAll picks the final items from what the sources returned:
+ * - proportional: each source keeps its share of everything collected
+ * - equal-per-source: the same number from every source
+ * - stratified-by-category: the same number per category, sources taking turns within one
+ * - weighted: per-source shares from `sourceWeights` (also used for how many to fetch)
+ * Without a strategy the merged items are ranked by engagement and truncated.
+ */
+export const SamplingStrategySchema = z.enum(['proportional', 'equal-per-source', 'stratified-by-category', 'weighted']);
+
+export type SamplingStrategy = z.infer<typeof SamplingStrategySchema>;
+
 export interface CollectorConfig {
   sources: DesignSource[];
   categories?: DesignCategory[];
@@ -152,6 +323,46 @@ export interface CollectorConfig {
   limit?: number;
   searchQuery?: string;
   sortBy?: 'popular' | 'recent' | 'trending';
+  maxPages?: number;
+  // Cancels a CollectorFactory run; sources still running count as failed
+  signal?: AbortSignal;
+  sampling?: SamplingStrategy;
+  // Relative weights for the `weighted` strategy; unlisted sources weigh 1, 0 skips a source
+  sourceWeights?: Partial<Record<DesignSource, number>>;
+  // Canonical sourceUrls already stored (incremental runs): these items are left out,
+  // and with sortBy 'recent' pagination stops at the first page that has one
+  knownUrls?: Set<string>;
+}
+
+/**
+ * A designer's or studio's profile page on one source
+ */
+export interface DesignerProfile {
+  source: DesignSource;
+  url: string;
+}
+
+/**
+ * What one collector did during a scout run, kept in the store history
+ */
+export interface SourceRunMetrics {
+  source: DesignSource;
+  pagesFetched: number;
+  pagesFailed: number;
+  // Response count per HTTP status; "robots" counts URLs skipped by robots.txt
+  httpStatuses: Record<string, number>;
+  // Elements matched per scrape spec list selector
+  selectorMatches: Record<string, number>;
+  itemsParsed: number;
+  // Matched elements rejected for missing required fields or failing to parse
+  itemsDropped: number;
+  itemsReturned: number;
+  // Items left out because they were already stored (incremental runs only)
+  itemsKnown?: number;
+  // Pages where the selectors matched nothing and structured data was used
+  structuredFallbacks: number;
+  errors: string[];
+  durationMs: number;
 }
 
 export interface AnalysisResult {
@@ -167,4 +378,6 @@ export interface AnalysisResult {
   accessibilityScore: number;
   modernityScore: number;
   uniquenessScore: number;
+  // Font families used by the analyzed live sites, with how many sites use each
+  siteFonts?: Array<{ family: string; sites: number }>;
 }
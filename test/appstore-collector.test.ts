@@ -0,0 +1,64 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { AppStoreCollector, type ITunesSearchResponse } from '../src/collectors/appstore-collector.js';
+import { configureHttpCache, getRateLimiter } from '../src/http/index.js';
+
+const fixture = JSON.parse(
+  readFileSync(new URL('../fixtures/appstore/search-design.json', import.meta.url), 'utf-8')
+) as ITunesSearchResponse;
+
+// No cache files and no waiting between pages
+before(() => {
+  configureHttpCache({ enabled: false });
+  getRateLimiter().configure({ appstore: { requestsPerSecond: 1000, burst: 10 } });
+});
+
+after(() => {
+  configureHttpCache();
+});
+
+test('the search fixture parses into iOS apps with mapped categories', () => {
+  const items = new AppStoreCollector().parseSearchResponse(fixture);
+
+  // The Mac app in the response is skipped
+  assert.deepEqual(items.map(item => item.title), ['Procreate Pocket', 'Copilot: Track & Budget Money']);
+  assert.ok(items.every(item => item.metadata?.platform === 'ios'));
+
+  const [procreate, copilot] = items;
+  // Graphics & Design has no category of its own
+  assert.equal(procreate.category, 'mobile-ios');
+  assert.equal(copilot.category, 'fintech');
+  assert.equal(procreate.sourceUrl, 'https://apps.apple.com/us/app/procreate-pocket/id916366645');
+  assert.equal(procreate.imageUrls.length, 2);
+  assert.equal(copilot.imageUrls.length, 2);
+});
+
+test('a requested category wins over the genre mapping', () => {
+  const items = new AppStoreCollector().parseSearchResponse(fixture, { categories: ['dashboard'] });
+  assert.ok(items.every(item => item.category === 'dashboard'));
+});
+
+test('paging stops at a page without new track IDs', async (t) => {
+  const requests: string[] = [];
+  t.mock.method(globalThis, 'fetch', async (input: string | URL | Request) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    if (url.pathname === '/robots.txt') return new Response('', { status: 404 });
+
+    requests.push(url.search);
+    const offset = Number(url.searchParams.get('offset'));
+    // Later pages repeat the same apps under other store URLs
+    const body = offset === 0
+      ? fixture
+      : {
+          ...fixture,
+          results: fixture.results.map(app => ({ ...app, trackViewUrl: app.trackViewUrl.replace('/us/', `/us-${offset}/`) })),
+        };
+    return new Response(JSON.stringify(body), { headers: { 'content-type': 'application/json' } });
+  });
+
+  const items = await new AppStoreCollector().search('design', { limit: 10, maxPages: 5 });
+
+  assert.equal(requests.length, 2);
+  assert.equal(items.length, 4);
+});
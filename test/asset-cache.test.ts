@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import sharp from 'sharp';
+import { DesignScoutAgent } from '../src/agents/design-scout-agent.js';
+import { DesignStore } from '../src/storage/design-store.js';
+import type { DesignItem } from '../src/types/index.js';
+
+function designItem(id: string, imageUrl: string): DesignItem {
+  return {
+    id,
+    title: 'Dashboard',
+    description: '',
+    source: 'dribbble',
+    sourceUrl: 'https://dribbble.com/shots/1-dashboard',
+    imageUrls: [imageUrl],
+    category: 'dashboard',
+    styles: [],
+    colors: [],
+    tags: [],
+    collectedAt: new Date(),
+  };
+}
+
+test('a design saved again keeps its ID and its cached images', async () => {
+  const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'design-scout-'));
+  try {
+    const imagePath = path.join(dataDir, 'shot.png');
+    await sharp({ create: { width: 32, height: 24, channels: 3, background: '#3366ff' } }).png().toFile(imagePath);
+    const imageUrl = pathToFileURL(imagePath).href;
+
+    const store = new DesignStore(dataDir);
+    await store.init();
+    const first = await store.saveDesign(designItem('dribbble-first', imageUrl));
+    // A later run collects the same shot under a new collector ID
+    const again = await store.saveDesign(designItem('dribbble-second', imageUrl));
+
+    assert.equal(again.id, first.id);
+    assert.equal(store.getDesign(again.id)?.id, first.id);
+    for (const [key, design] of store.getDesignEntries()) {
+      assert.equal(design.id, key);
+    }
+
+    await store.flush();
+
+    const agent = new DesignScoutAgent(dataDir);
+    const result = await agent.cacheAssets({ ids: [again.id] });
+    assert.equal(result.cached, 1);
+    const [stored] = await agent.getAllStored();
+    assert.equal(stored.id, first.id);
+    assert.equal(stored.assets?.length, 1);
+
+    // Referenced images survive garbage collection
+    const gc = await agent.collectAssetGarbage();
+    assert.deepEqual(gc.removed, []);
+  } finally {
+    // Let the store's debounced write land before removing its directory
+    await new Promise(resolve => setTimeout(resolve, 200));
+    await fs.rm(dataDir, { recursive: true, force: true });
+  }
+});
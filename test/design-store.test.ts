@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { DesignStore } from '../src/storage/design-store.js';
+import type { DesignItem } from '../src/types/index.js';
+
+function designItem(id: string, sourceUrl: string): DesignItem {
+  return {
+    id,
+    title: 'Checkout flow',
+    description: '',
+    source: 'dribbble',
+    sourceUrl,
+    imageUrls: [],
+    category: 'e-commerce',
+    styles: [],
+    colors: [],
+    tags: [],
+    collectedAt: new Date(),
+  };
+}
+
+async function withStore(run: (store: DesignStore, dataDir: string) => Promise<void>): Promise<void> {
+  const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'design-scout-'));
+  try {
+    await run(new DesignStore(dataDir), dataDir);
+  } finally {
+    // Let the store's debounced write land before removing its directory
+    await new Promise(resolve => setTimeout(resolve, 200));
+    await fs.rm(dataDir, { recursive: true, force: true });
+  }
+}
+
+test('an incremental re-save updates the design under its existing key and ID', () => {
+  return withStore(async (store) => {
+    await store.init();
+    const first = await store.saveDesign(designItem('dribbble-1', 'https://dribbble.com/shots/42-checkout'));
+    await store.toggleFavorite(first.id);
+
+    // Same page under another URL form, as a later run would collect it
+    const updated = await store.saveDesign(designItem('dribbble-2', 'http://www.dribbble.com/shots/42-checkout/?utm_source=feed'));
+
+    assert.equal(updated.id, first.id);
+    const entries = store.getDesignEntries();
+    assert.equal(entries.length, 1);
+    for (const [key, design] of entries) {
+      assert.equal(design.id, key);
+    }
+    assert.equal(store.getFavorites()[0]?.id, first.id);
+  });
+});
+
+test('designs stored under a different ID are repaired on load', () => {
+  return withStore(async (store, dataDir) => {
+    await store.init();
+    await store.saveDesign(designItem('dribbble-1', 'https://dribbble.com/shots/42-checkout'));
+    await store.flush();
+
+    const file = path.join(dataDir, 'designs.json');
+    const data = JSON.parse(await fs.readFile(file, 'utf-8'));
+    data.designs['dribbble-1'].id = 'dribbble-2';
+    await fs.writeFile(file, JSON.stringify(data), 'utf-8');
+
+    const reloaded = new DesignStore(dataDir);
+    await reloaded.init();
+    assert.equal(reloaded.getDesign('dribbble-1')?.id, 'dribbble-1');
+  });
+});
@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HostRateLimiter } from '../src/http/rate-limiter.js';
+
+test('aborting cancels a wait for the next request slot', async () => {
+  const limiter = new HostRateLimiter();
+  const url = 'https://example.com/page';
+  await limiter.acquire(url);
+
+  // A 60 second crawl delay leaves the next request waiting
+  const controller = new AbortController();
+  const started = Date.now();
+  setTimeout(() => controller.abort(new Error('cancelled')), 50);
+
+  await assert.rejects(limiter.acquire(url, undefined, 60, controller.signal), /cancelled/);
+  assert.ok(Date.now() - started < 1000);
+});
+
+test('an already aborted signal rejects before waiting', async () => {
+  const limiter = new HostRateLimiter();
+  const controller = new AbortController();
+  controller.abort(new Error('cancelled'));
+
+  await assert.rejects(limiter.acquire('https://example.com/', undefined, undefined, controller.signal), /cancelled/);
+});